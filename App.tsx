@@ -3,17 +3,20 @@ import MainLayout from './components/layout/MainLayout';
 import HomePage from './pages/HomePage';
 import { PictogramProvider } from './context/PictogramContext';
 import { UIProvider } from './context/UIContext';
+import { PreferencesProvider } from './context/PreferencesContext';
 
 function App() {
   return (
-    <PictogramProvider>
-      <UIProvider>
-        <MainLayout>
-          <HomePage />
-        </MainLayout>
-      </UIProvider>
-    </PictogramProvider>
+    <PreferencesProvider>
+      <PictogramProvider>
+        <UIProvider>
+          <MainLayout>
+            <HomePage />
+          </MainLayout>
+        </UIProvider>
+      </PictogramProvider>
+    </PreferencesProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { X, Wand2, Save, Loader2, Volume2, Image as ImageIcon } from 'lucide-react';
-import { generatePictogramImage, generatePictogramAudio, playAudio, VOICE_OPTIONS } from '../services/geminiService';
+import { generatePictogramImage, generatePictogramAudio } from '../services/geminiService';
+import { VOICE_OPTIONS, DEFAULT_VOICE } from '../constants';
+import { playAudio } from '../services/audioPlayer';
 import { uploadImageToS3 } from '../services/storageService';
 import { ProcessingState, Pictogram } from '../types';
 import { v4 as uuidv4 } from 'uuid';
@@ -55,7 +57,7 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
       setState(ProcessingState.GENERATING_AUDIO);
       let audioBase64: string;
       try {
-        audioBase64 = await generatePictogramAudio(word, selectedVoice);
+        audioBase64 = await generatePictogramAudio(word, { ...DEFAULT_VOICE, voiceId: selectedVoice });
         setGeneratedAudio(audioBase64);
       } catch (audioError) {
          console.error("Audio generation error:", audioError);
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Pictogram } from '../types';
 import { Play, Trash2, Check, X, Loader2, Edit2, GripHorizontal } from 'lucide-react';
-import { playAudio } from '../services/geminiService';
+import { playAudio } from '../services/audioPlayer';
 
 interface PictogramCardProps {
   pictogram: Pictogram;
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Pictogram } from '../types';
 import { Play, Trash2, Delete, XCircle } from 'lucide-react';
-import { playAudio } from '../services/geminiService';
+import { playAudio } from '../services/audioPlayer';
 
 interface SentenceStripProps {
   sentence: Pictogram[];
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Mic, Square, Play, RotateCcw, X, Loader2 } from 'lucide-react';
+import { useAudioRecorder } from '../../hooks/useAudioRecorder';
+import { playAudio } from '../../services/audioPlayer';
+
+interface VoiceRecorderProps {
+  value: string | null; // Recorded clip (raw Base64 WAV) or null
+  onChange: (audioBase64: string | null) => void;
+  compact?: boolean; // Icon-only layout for cards
+  disabled?: boolean;
+}
+
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ value, onChange, compact = false, disabled = false }) => {
+  const { status, error, elapsedMs, start, stop } = useAudioRecorder(onChange);
+
+  const isRecording = status === 'recording';
+  const isProcessing = status === 'processing';
+
+  const buttonBase = compact
+    ? 'p-2 rounded-full transition-colors disabled:opacity-50'
+    : 'flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl font-semibold transition-colors disabled:opacity-50';
+
+  const handlePreview = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (value) {
+      playAudio(value).catch(err => console.error("Failed to preview recording", err));
+    }
+  };
+
+  const handleRecord = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    start();
+  };
+
+  const handleStop = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    stop();
+  };
+
+  const handleDiscard = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onChange(null);
+  };
+
+  return (
+    <div className="w-full">
+      <div className={`flex items-center ${compact ? 'justify-center gap-1' : 'gap-2'}`}>
+        {isRecording ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            className={`${buttonBase} bg-red-500 text-white hover:bg-red-600 animate-pulse`}
+            aria-label="Detener grabación"
+            title="Detener grabación"
+          >
+            <Square size={18} fill="currentColor" />
+            {!compact && <span>Detener ({(elapsedMs / 1000).toFixed(1)}s)</span>}
+          </button>
+        ) : isProcessing ? (
+          <div className={`${buttonBase} bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-300`}>
+            <Loader2 size={18} className="animate-spin" />
+            {!compact && <span>Procesando...</span>}
+          </div>
+        ) : value ? (
+          <>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={disabled}
+              className={`${buttonBase} bg-yellow-100 text-yellow-700 hover:bg-yellow-200 dark:bg-yellow-900 dark:text-yellow-200`}
+              aria-label="Escuchar grabación"
+              title="Escuchar grabación"
+            >
+              <Play size={18} fill="currentColor" />
+              {!compact && <span>Escuchar</span>}
+            </button>
+            <button
+              type="button"
+              onClick={handleRecord}
+              disabled={disabled}
+              className={`${buttonBase} bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200`}
+              aria-label="Volver a grabar"
+              title="Volver a grabar"
+            >
+              <RotateCcw size={18} />
+              {!compact && <span>Regrabar</span>}
+            </button>
+            <button
+              type="button"
+              onClick={handleDiscard}
+              disabled={disabled}
+              className={`${compact ? buttonBase : 'p-2 rounded-xl transition-colors disabled:opacity-50'} text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30`}
+              aria-label="Descartar grabación"
+              title="Descartar grabación"
+            >
+              <X size={18} />
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={handleRecord}
+            disabled={disabled}
+            className={`${buttonBase} bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50`}
+            aria-label="Grabar mi voz"
+            title="Grabar mi voz"
+          >
+            <Mic size={18} />
+            {!compact && <span>Grabar mi voz</span>}
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-500 mt-1 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default VoiceRecorder;
@@ -1,14 +1,20 @@
 import React, { useState } from 'react';
-import { Pictogram } from '../../types';
-import { Play, Trash2, Check, X, Loader2, Edit2, GripHorizontal } from 'lucide-react';
-import { playAudio } from '../../services/geminiService';
+import { Pictogram, PictogramCategory } from '../../types';
+import { Play, Trash2, Check, X, Loader2, Edit2, GripHorizontal, MinusCircle, CloudUpload, Wand2 } from 'lucide-react';
+import { playClip } from '../../services/audioPlayer';
+import { CATEGORY_OPTIONS, UNCATEGORIZED_ID, getCategoryOption } from '../../constants';
+import { PictogramEdits } from '../../hooks/usePictograms';
+import VoiceRecorder from '../audio/VoiceRecorder';
 
 interface PictogramCardProps {
   pictogram: Pictogram;
   onDelete: (id: string) => void;
-  onEdit: (id: string, newWord: string) => Promise<void>;
+  onEdit: (id: string, edits: PictogramEdits) => Promise<void>;
   onSelect?: (pictogram: Pictogram) => void;
+  onRemoveFromBoard?: (id: string) => void; // Only when a board is active
+  onRefineImage?: (pictogram: Pictogram) => void;
   isEditMode: boolean;
+  isPendingSync?: boolean; // Has offline changes waiting in the outbox
   // DnD Props
   draggable?: boolean;
   onDragStart?: (e: React.DragEvent) => void;
@@ -26,7 +32,10 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
   onDelete, 
   onEdit, 
   onSelect, 
+  onRemoveFromBoard,
+  onRefineImage,
   isEditMode,
+  isPendingSync,
   draggable,
   onDragStart,
   onDragOver,
@@ -41,23 +50,23 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
   const [isDeleting, setIsDeleting] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editedWord, setEditedWord] = useState(pictogram.word);
+  const [editedCategory, setEditedCategory] = useState<string>(pictogram.category || UNCATEGORIZED_ID);
+  const [recordedAudio, setRecordedAudio] = useState<string | null>(null);
   const [isSavingEdit, setIsSavingEdit] = useState(false);
 
-  const handlePlay = async () => {
+  const categoryOption = getCategoryOption(pictogram.category);
+  const hasCategory = categoryOption.id !== UNCATEGORIZED_ID;
+
+  const handlePlay = () => {
     if (isPlaying || isDeleting || isEditing) return;
     
-    // Trigger audio
+    // Trigger audio; the card stays highlighted until the clip actually ends
     setIsPlaying(true);
-    try {
-      await playAudio(pictogram.audioBase64);
-      // Add a small visual timeout to simulate "playing" state duration if audio is short
-      setTimeout(() => setIsPlaying(false), 1000);
-    } catch (e) {
-      console.error("Failed to play audio", e);
-      setIsPlaying(false);
-    }
+    playClip(pictogram)
+      .catch(e => console.error("Failed to play audio", e))
+      .finally(() => setIsPlaying(false));
 
-    // Notify parent (for sentence builder)
+    // Notify parent (for sentence builder) without waiting for the audio
     if (onSelect && !isEditMode) {
         onSelect(pictogram);
     }
@@ -76,6 +85,8 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
   const handleStartEdit = (e: React.MouseEvent) => {
     e.stopPropagation();
     setEditedWord(pictogram.word);
+    setEditedCategory(pictogram.category || UNCATEGORIZED_ID);
+    setRecordedAudio(null);
     setIsEditing(true);
   };
 
@@ -83,18 +94,26 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
     e.stopPropagation();
     setIsEditing(false);
     setEditedWord(pictogram.word);
+    setEditedCategory(pictogram.category || UNCATEGORIZED_ID);
+    setRecordedAudio(null);
   };
 
   const handleSaveEdit = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!editedWord.trim() || editedWord === pictogram.word) {
+    const categoryChanged = editedCategory !== (pictogram.category || UNCATEGORIZED_ID);
+    if (!editedWord.trim() || (editedWord === pictogram.word && !categoryChanged && !recordedAudio)) {
       setIsEditing(false);
       return;
     }
 
     setIsSavingEdit(true);
     try {
-      await onEdit(pictogram.id, editedWord);
+      await onEdit(pictogram.id, {
+        word: editedWord,
+        // null is sent (and persisted) to remove the category
+        category: !categoryChanged ? undefined : editedCategory === UNCATEGORIZED_ID ? null : editedCategory as PictogramCategory,
+        customAudio: recordedAudio || undefined
+      });
       setIsEditing(false);
     } catch (error) {
       console.error("Failed to save edit", error);
@@ -106,6 +125,7 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
 
   return (
     <div 
+      data-pictogram-id={pictogram.id}
       draggable={draggable}
       onDragStart={onDragStart}
       onDragOver={onDragOver}
@@ -117,7 +137,7 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
         relative group bg-white dark:bg-gray-800 rounded-2xl shadow-lg transition-all duration-300 overflow-hidden border-4
         ${isDragging ? 'opacity-40 scale-95 grayscale' : 'opacity-100'}
         ${isDragOver ? 'border-dashed border-blue-500 dark:border-blue-400 scale-105 shadow-2xl z-10' : ''}
-        ${isEditing ? 'border-yellow-400' : (isDragOver ? '' : 'border-blue-100 hover:border-blue-300 dark:border-gray-700 dark:hover:border-gray-600')}
+        ${isEditing ? 'border-yellow-400' : (isDragOver ? '' : (hasCategory ? categoryOption.borderClass : 'border-blue-100 hover:border-blue-300 dark:border-gray-700 dark:hover:border-gray-600'))}
         ${!isEditing && !isDragging && !isDragOver ? 'hover:-translate-y-1 hover:shadow-xl' : ''}
         ${draggable ? 'cursor-grab active:cursor-grabbing' : ''}
       `}
@@ -130,6 +150,17 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
         </div>
       )}
 
+      {/* Pending Sync Badge */}
+      {isPendingSync && (
+        <div
+          className="absolute top-2 left-2 z-10 flex items-center gap-1 px-2 py-1 rounded-full bg-orange-100 text-orange-700 dark:bg-orange-900/60 dark:text-orange-200 text-[10px] font-bold shadow-sm"
+          title="Pendiente de sincronizar"
+        >
+          <CloudUpload size={14} />
+          <span className="hidden sm:inline">Pendiente</span>
+        </div>
+      )}
+
       {/* Delete Confirmation Overlay */}
       {isDeleting && (
         <div className="absolute inset-0 z-20 bg-red-500/95 backdrop-blur-sm flex flex-col items-center justify-center p-4 animate-in fade-in duration-200">
@@ -187,7 +218,7 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
         </div>
         
         {isEditing ? (
-          <div className="w-full flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+          <div className="w-full flex flex-col items-center gap-2" onClick={(e) => e.stopPropagation()}>
              <input 
                 type="text"
                 value={editedWord}
@@ -198,6 +229,17 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
                     if (e.key === ' ') e.stopPropagation(); // prevent accidental play on space
                 }}
              />
+             <select
+                value={editedCategory}
+                onChange={(e) => setEditedCategory(e.target.value)}
+                className="w-full bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:border-blue-400"
+                aria-label="Categoría"
+             >
+                <option value={UNCATEGORIZED_ID}>Sin categoría</option>
+                {CATEGORY_OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+             </select>
           </div>
         ) : (
             <h3 className={`text-3xl font-bold uppercase tracking-wider text-center w-full break-words transition-colors duration-300 ${isPlaying ? 'text-yellow-500 dark:text-yellow-400' : 'text-gray-800 dark:text-gray-100'}`}>
@@ -206,11 +248,34 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
         )}
       </button>
 
+      {/* Voice Recording (edit flow) */}
+      {isEditing && (
+        <div className="px-4 pb-4 -mt-2">
+          <VoiceRecorder value={recordedAudio} onChange={setRecordedAudio} compact disabled={isSavingEdit} />
+          {pictogram.isCustomAudio && !recordedAudio && (
+            <p className="text-[10px] text-center text-gray-400 dark:text-gray-500 mt-1">Usa una grabación propia</p>
+          )}
+        </div>
+      )}
+
       {/* Action Buttons - Only Visible in Edit Mode */}
       {isEditMode && !isDeleting && !isPlaying && !isSavingEdit && (
         <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity focus-within:opacity-100 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-1 rounded-full z-10">
            {isEditing ? (
               <>
+                {onRefineImage && (
+                    <button 
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onRefineImage(pictogram);
+                        }}
+                        className="p-2 bg-purple-100 text-purple-600 rounded-full hover:bg-purple-200"
+                        title="Refinar imagen"
+                        aria-label="Refinar imagen"
+                    >
+                        <Wand2 size={18} />
+                    </button>
+                )}
                 <button 
                     onClick={handleCancelEdit}
                     className="p-2 bg-red-100 text-red-600 rounded-full hover:bg-red-200"
@@ -235,6 +300,19 @@ const PictogramCard: React.FC<PictogramCardProps> = ({
                 >
                     <Edit2 size={18} />
                 </button>
+                {onRemoveFromBoard && (
+                    <button 
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onRemoveFromBoard(pictogram.id);
+                        }}
+                        className="p-2 bg-yellow-100 text-yellow-700 rounded-full hover:bg-yellow-200 shadow-sm"
+                        aria-label="Quitar del tablero"
+                        title="Quitar del tablero"
+                    >
+                        <MinusCircle size={18} />
+                    </button>
+                )}
                 <button 
                     onClick={(e) => {
                         e.stopPropagation();
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { Pictogram } from '../../types';
+import { playClip } from '../../services/audioPlayer';
+
+interface SuggestionRowProps {
+  suggestions: Pictogram[];
+  onSelect: (pictogram: Pictogram) => void;
+}
+
+/**
+ * Likely next pictograms, so the child doesn't have to scan the whole grid.
+ * Tapping one behaves like tapping its card: it speaks and joins the sentence.
+ */
+const SuggestionRow: React.FC<SuggestionRowProps> = ({ suggestions, onSelect }) => {
+  if (suggestions.length === 0) return null;
+
+  const handleSelect = (pictogram: Pictogram) => {
+    playClip(pictogram).catch(err => console.error("Failed to play suggestion", err));
+    onSelect(pictogram);
+  };
+
+  return (
+    <div className="mb-6 p-3 bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-100 dark:border-amber-900/50 rounded-2xl animate-in fade-in">
+      <h3 className="text-xs font-bold text-amber-700 dark:text-amber-300 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+        <Lightbulb size={14} /> Siguiente
+      </h3>
+      <div className="flex gap-3 overflow-x-auto scrollbar-hide">
+        {suggestions.map(pictogram => (
+          <button
+            key={pictogram.id}
+            onClick={() => handleSelect(pictogram)}
+            className="shrink-0 w-24 flex flex-col items-center p-2 bg-white dark:bg-gray-800 rounded-xl border-2 border-amber-200 dark:border-amber-800 hover:border-amber-400 hover:scale-105 transition-all"
+            title={pictogram.word}
+          >
+            <img src={pictogram.imageUrl} alt={pictogram.word} className="w-16 h-16 object-contain" />
+            <span className="text-xs font-bold uppercase truncate max-w-full text-gray-700 dark:text-gray-200">{pictogram.word}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionRow;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Loader2, X, Check, AlertCircle, Clock, RefreshCw, ChevronDown, ChevronUp, Ban } from 'lucide-react';
+import { useGenerationJobs } from '../../hooks/useGenerationJobs';
+import { cancelJob, cancelAllJobs, dismissJob } from '../../services/generationQueue';
+import { GenerationJob, ProcessingState } from '../../types';
+
+const MAX_VISIBLE_QUEUED = 5; // A 50-word bulk run shouldn't fill the screen
+
+const isActive = (job: GenerationJob) =>
+  job.state === ProcessingState.QUEUED ||
+  job.state === ProcessingState.RETRYING ||
+  job.state === ProcessingState.GENERATING_IMAGE ||
+  job.state === ProcessingState.GENERATING_AUDIO ||
+  job.state === ProcessingState.GENERATING_TEXT;
+
+const JobIcon: React.FC<{ job: GenerationJob }> = ({ job }) => {
+  switch (job.state) {
+    case ProcessingState.QUEUED:
+      return <Clock size={16} className="text-gray-400" />;
+    case ProcessingState.RETRYING:
+      return <RefreshCw size={16} className="text-orange-500 animate-spin" />;
+    case ProcessingState.COMPLETE:
+      return <Check size={16} className="text-green-500" />;
+    case ProcessingState.ERROR:
+      return <AlertCircle size={16} className="text-red-500" />;
+    case ProcessingState.CANCELLED:
+      return <Ban size={16} className="text-gray-400" />;
+    default:
+      return <Loader2 size={16} className="text-blue-500 animate-spin" />;
+  }
+};
+
+const statusText = (job: GenerationJob) => {
+  switch (job.state) {
+    case ProcessingState.QUEUED: return 'En cola';
+    case ProcessingState.RETRYING: return `Reintentando (intento ${job.attempt + 1})`;
+    case ProcessingState.COMPLETE: return 'Listo';
+    case ProcessingState.ERROR: return 'Falló';
+    case ProcessingState.CANCELLED: return 'Cancelado';
+    default: return job.attempt > 1 ? `Generando (intento ${job.attempt})` : 'Generando...';
+  }
+};
+
+/**
+ * Floating panel listing what the generation queue is running, waiting on or failed.
+ * Hidden while the queue is empty.
+ */
+const GenerationJobsPanel: React.FC = () => {
+  const jobs = useGenerationJobs();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const queued = jobs.filter(j => j.state === ProcessingState.QUEUED);
+  const running = jobs.filter(j => isActive(j) && j.state !== ProcessingState.QUEUED);
+  const failed = jobs.filter(j => j.state === ProcessingState.ERROR);
+  const finished = jobs.filter(j => j.state === ProcessingState.COMPLETE || j.state === ProcessingState.CANCELLED);
+  const visible = [...failed, ...running, ...queued.slice(0, MAX_VISIBLE_QUEUED), ...finished];
+  const hasActive = running.length + queued.length > 0;
+
+  return (
+    <div className="fixed bottom-24 left-4 z-40 w-72 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 overflow-hidden animate-in slide-in-from-left fade-in">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-100 dark:border-gray-700">
+        <button
+          onClick={() => setCollapsed(prev => !prev)}
+          className="flex items-center gap-2 text-sm font-bold text-gray-700 dark:text-gray-200"
+          aria-expanded={!collapsed}
+        >
+          {hasActive && <Loader2 size={14} className="animate-spin text-blue-500" />}
+          Generación
+          <span className="font-normal text-gray-500 dark:text-gray-400">
+            {running.length} en curso · {queued.length} en cola{failed.length > 0 && ` · ${failed.length} con error`}
+          </span>
+          {collapsed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+        {hasActive && (
+          <button
+            onClick={cancelAllJobs}
+            className="text-xs text-red-500 hover:underline"
+            title="Cancelar todo"
+          >
+            Cancelar
+          </button>
+        )}
+      </div>
+
+      {!collapsed && (
+        <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {visible.map(job => (
+            <li key={job.id} className="flex items-center gap-2 px-4 py-2 text-sm">
+              <JobIcon job={job} />
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-gray-700 dark:text-gray-200">{job.label}</p>
+                <p className={`text-xs truncate ${job.state === ProcessingState.ERROR ? 'text-red-500' : 'text-gray-400 dark:text-gray-500'}`} title={job.error}>
+                  {statusText(job)}
+                </p>
+              </div>
+              {isActive(job) && (
+                <button
+                  onClick={() => cancelJob(job.id)}
+                  className="p-1 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30"
+                  aria-label={`Cancelar ${job.label}`}
+                  title="Cancelar"
+                >
+                  <X size={14} />
+                </button>
+              )}
+              {job.state === ProcessingState.ERROR && (
+                <button
+                  onClick={() => dismissJob(job.id)}
+                  className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Descartar"
+                  title="Descartar"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+          {queued.length > MAX_VISIBLE_QUEUED && (
+            <li className="px-4 py-2 text-xs text-gray-400 dark:text-gray-500">
+              y {queued.length - MAX_VISIBLE_QUEUED} más en cola...
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GenerationJobsPanel;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { OutboxConflict } from '../../services/outboxService';
+
+interface SyncConflictsProps {
+  conflicts: OutboxConflict[];
+  onDismiss: (seq: number) => void;
+}
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, onDismiss }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="max-w-2xl mx-auto mb-6 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-3 animate-in slide-in-from-top-4">
+      <p className="text-orange-700 dark:text-orange-300 text-sm font-bold flex items-center gap-2 mb-2">
+        <AlertTriangle size={16} /> Algunos cambios hechos sin conexión no se pudieron sincronizar
+      </p>
+      <ul className="space-y-1">
+        {conflicts.map(conflict => {
+          const word = 'payload' in conflict.mutation ? conflict.mutation.payload.word : undefined;
+          return (
+            <li key={conflict.seq} className="flex items-start justify-between gap-2 text-sm text-orange-800 dark:text-orange-200">
+              <span>
+                {word && <span className="font-bold uppercase">{word}: </span>}
+                {conflict.reason}
+              </span>
+              <button
+                onClick={() => conflict.seq !== undefined && onDismiss(conflict.seq)}
+                className="shrink-0 p-1 rounded-full hover:bg-orange-100 dark:hover:bg-orange-900/40"
+                aria-label="Descartar aviso"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -0,0 +1,184 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { LayoutGrid, ChevronDown, Check, Plus, Edit2, Trash2, X, Loader2, AlertCircle } from 'lucide-react';
+import { useUIContext } from '../../context/UIContext';
+import { usePictogramContext } from '../../context/PictogramContext';
+
+const BoardSwitcher: React.FC = () => {
+  const { isEditMode, showToast } = useUIContext();
+  const {
+    boards, boardsLoading, boardsError, loadBoards, activeBoard, pictograms,
+    setActiveBoard, addBoard, renameBoard, removeBoard
+  } = usePictogramContext();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (id: string | null) => {
+    setActiveBoard(id);
+    setIsOpen(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBoardName.trim()) return;
+    try {
+      await addBoard(newBoardName);
+      setNewBoardName('');
+      setIsOpen(false);
+      showToast('Tablero creado', 'success');
+    } catch (error) {
+      showToast('No se pudo crear el tablero', 'error');
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    if (!renameValue.trim()) return;
+    try {
+      await renameBoard(id, renameValue);
+      setRenamingId(null);
+    } catch (error) {
+      showToast('No se pudo renombrar el tablero', 'error');
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(`¿Borrar el tablero "${name}"? Los pictogramas no se eliminan.`)) return;
+    try {
+      await removeBoard(id);
+      showToast('Tablero eliminado', 'success');
+    } catch (error) {
+      showToast('No se pudo borrar el tablero', 'error');
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-2 rounded-full bg-blue-50 dark:bg-gray-700 text-blue-700 dark:text-blue-200 hover:bg-blue-100 dark:hover:bg-gray-600 transition-colors font-semibold max-w-[10rem] sm:max-w-[14rem] focus:outline-none focus:ring-2 focus:ring-blue-300 dark:focus:ring-gray-500"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        title="Cambiar tablero"
+      >
+        <LayoutGrid size={20} className="shrink-0" />
+        <span className="truncate">{activeBoard ? activeBoard.name : 'Todos'}</span>
+        <ChevronDown size={16} className={`shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 sm:left-auto sm:right-0 mt-2 w-72 bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-blue-100 dark:border-gray-700 overflow-hidden z-50 animate-in fade-in zoom-in duration-150">
+          <ul role="listbox" className="max-h-72 overflow-y-auto py-2">
+            <li>
+              <button
+                onClick={() => handleSelect(null)}
+                className="w-full flex items-center justify-between px-4 py-2 text-left text-gray-700 dark:text-gray-200 hover:bg-blue-50 dark:hover:bg-gray-700"
+              >
+                <span className="font-semibold">Todos los pictogramas <span className="text-xs text-gray-400">({pictograms.length})</span></span>
+                {!activeBoard && <Check size={18} className="text-blue-500" />}
+              </button>
+            </li>
+            {boardsLoading && (
+              <li className="flex items-center gap-2 px-4 py-2 text-sm text-gray-400">
+                <Loader2 size={14} className="animate-spin" /> Cargando tableros...
+              </li>
+            )}
+            {boardsError && !boardsLoading && (
+              <li className="flex items-center gap-2 px-4 py-2 text-sm text-red-500">
+                <AlertCircle size={14} className="shrink-0" />
+                <span className="flex-1">{boardsError}</span>
+                <button onClick={() => loadBoards()} className="text-blue-500 underline shrink-0">Reintentar</button>
+              </li>
+            )}
+            {boards.map(board => (
+              <li key={board.id} className="group flex items-center">
+                {renamingId === board.id ? (
+                  <form onSubmit={(e) => handleRename(e, board.id)} className="flex-1 flex items-center gap-1 px-3 py-1">
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      autoFocus
+                      className="flex-1 min-w-0 px-2 py-1 rounded-lg border-2 border-blue-300 dark:border-blue-700 bg-white dark:bg-gray-700 dark:text-white outline-none"
+                    />
+                    <button type="submit" className="p-1.5 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/30 rounded-full" title="Guardar nombre">
+                      <Check size={16} />
+                    </button>
+                    <button type="button" onClick={() => setRenamingId(null)} className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full" title="Cancelar">
+                      <X size={16} />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleSelect(board.id)}
+                      className="flex-1 min-w-0 flex items-center justify-between px-4 py-2 text-left text-gray-700 dark:text-gray-200 hover:bg-blue-50 dark:hover:bg-gray-700"
+                    >
+                      <span className="truncate">{board.name} <span className="text-xs text-gray-400">({board.pictogramIds.length})</span></span>
+                      {activeBoard?.id === board.id && <Check size={18} className="text-blue-500 shrink-0" />}
+                    </button>
+                    {isEditMode && (
+                      <div className="flex items-center pr-2">
+                        <button
+                          onClick={() => { setRenamingId(board.id); setRenameValue(board.name); }}
+                          className="p-1.5 text-blue-500 hover:bg-blue-50 dark:hover:bg-gray-700 rounded-full"
+                          aria-label={`Renombrar ${board.name}`}
+                        >
+                          <Edit2 size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(board.id, board.name)}
+                          className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full"
+                          aria-label={`Borrar ${board.name}`}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* New Board */}
+          <form onSubmit={handleCreate} className="flex items-center gap-2 p-3 border-t border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+            <input
+              type="text"
+              value={newBoardName}
+              onChange={(e) => setNewBoardName(e.target.value)}
+              placeholder="Nuevo tablero (ej. Desayuno)"
+              className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border-2 border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white focus:border-blue-400 outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newBoardName.trim()}
+              className="p-2 bg-green-500 hover:bg-green-600 disabled:bg-green-300 text-white rounded-lg transition-colors"
+              aria-label="Crear tablero"
+            >
+              <Plus size={18} strokeWidth={3} />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoardSwitcher;
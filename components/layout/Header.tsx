@@ -1,15 +1,16 @@
 
 import React from 'react';
-import { Plus, Moon, Sun, Lock, Unlock } from 'lucide-react';
+import { Plus, Moon, Sun, Lock, Unlock, Settings, ListPlus, Sparkles } from 'lucide-react';
 import { APP_TITLE } from '../../constants';
 import { useUIContext } from '../../context/UIContext';
 import { usePictogramContext } from '../../context/PictogramContext';
+import BoardSwitcher from './BoardSwitcher';
 
 const Header: React.FC = () => {
   const { 
     darkMode, toggleDarkMode, 
     isEditMode, toggleEditMode, 
-    setModalOpen 
+    setModalOpen, setBulkModalOpen, setPackModalOpen, setSettingsOpen 
   } = useUIContext();
   
   const { pictograms } = usePictogramContext();
@@ -60,6 +61,9 @@ const Header: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-2 sm:gap-3">
+          {/* Board Switcher */}
+          <BoardSwitcher />
+
           {/* Edit Mode Toggle */}
           {hasItems && (
             <button
@@ -81,6 +85,33 @@ const Header: React.FC = () => {
             {darkMode ? <Sun size={24} /> : <Moon size={24} />}
           </button>
 
+          <button
+            onClick={() => setSettingsOpen(true)}
+            className="p-2 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-300 dark:focus:ring-gray-500"
+            aria-label="Ajustes"
+            title="Ajustes"
+          >
+            <Settings size={24} />
+          </button>
+
+          <button
+            onClick={() => setBulkModalOpen(true)}
+            className="p-2 rounded-full bg-indigo-50 dark:bg-gray-700 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-300 dark:focus:ring-gray-500"
+            aria-label="Generar en lote"
+            title="Generar en lote"
+          >
+            <ListPlus size={24} />
+          </button>
+
+          <button
+            onClick={() => setPackModalOpen(true)}
+            className="p-2 rounded-full bg-purple-50 dark:bg-gray-700 text-purple-600 dark:text-purple-300 hover:bg-purple-100 dark:hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-300 dark:focus:ring-gray-500"
+            aria-label="Tablero por tema"
+            title="Tablero por tema"
+          >
+            <Sparkles size={24} />
+          </button>
+
           <button
             onClick={() => setModalOpen(true)}
             className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 sm:px-6 sm:py-3 rounded-full font-bold shadow-lg shadow-green-200 dark:shadow-none flex items-center gap-2 transition-all transform hover:scale-105 active:scale-95"
@@ -2,6 +2,8 @@ import React from 'react';
 import Header from './Header';
 import SentenceStrip from './SentenceStrip';
 import Toast from '../feedback/Toast';
+import GenerationJobsPanel from '../feedback/GenerationJobsPanel';
+import SettingsModal from '../modals/SettingsModal';
 import { useUIContext } from '../../context/UIContext';
 
 interface MainLayoutProps {
@@ -9,10 +11,15 @@ interface MainLayoutProps {
 }
 
 const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
-  const { sentence, toast, hideToast } = useUIContext();
+  const { sentence, pinnedPhrases, phraseHistory, toast, hideToast, isSettingsOpen, setSettingsOpen } = useUIContext();
+
+  // Leave room for the fixed strip: full height with a sentence, a slim bar with only saved phrases
+  const stripPadding = sentence.length > 0
+    ? 'pb-44'
+    : pinnedPhrases.length > 0 || phraseHistory.length > 0 ? 'pb-16' : '';
 
   return (
-    <div className={`min-h-screen bg-[#f0f9ff] dark:bg-gray-900 transition-colors duration-300 flex flex-col ${sentence.length > 0 ? 'pb-32' : ''}`}>
+    <div className={`min-h-screen bg-[#f0f9ff] dark:bg-gray-900 transition-colors duration-300 flex flex-col ${stripPadding}`}>
       <Header />
       
       {/* Main Content Area */}
@@ -22,6 +29,10 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
 
       <SentenceStrip />
 
+      <GenerationJobsPanel />
+
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setSettingsOpen(false)} />
+
       {toast && (
         <Toast 
           message={toast.message} 
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Star, History, X } from 'lucide-react';
+import { SavedPhrase } from '../../types';
+
+interface PhraseBarProps {
+  pinnedPhrases: SavedPhrase[];
+  phraseHistory: SavedPhrase[];
+  onPlay: (phrase: SavedPhrase) => void;
+  onSetPinned: (id: string, pinned: boolean) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * One-tap pinned phrases, plus a panel with the recently spoken sentences.
+ */
+const PhraseBar: React.FC<PhraseBarProps> = ({ pinnedPhrases, phraseHistory, onPlay, onSetPinned, onDelete, disabled = false }) => {
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const handlePlay = (phrase: SavedPhrase) => {
+    setIsHistoryOpen(false);
+    onPlay(phrase);
+  };
+
+  const renderHistoryItem = (phrase: SavedPhrase) => (
+    <li key={phrase.id} className="flex items-center gap-2">
+      <button
+        onClick={() => handlePlay(phrase)}
+        disabled={disabled}
+        className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 truncate disabled:opacity-50"
+      >
+        {phrase.text}
+      </button>
+      <button
+        onClick={() => onSetPinned(phrase.id, !phrase.pinned)}
+        className={`p-1.5 rounded-full transition-colors ${phrase.pinned ? 'text-amber-500' : 'text-gray-300 dark:text-gray-500 hover:text-amber-400'}`}
+        aria-label={phrase.pinned ? `Quitar "${phrase.text}" de fijadas` : `Fijar "${phrase.text}"`}
+      >
+        <Star size={18} fill={phrase.pinned ? 'currentColor' : 'none'} />
+      </button>
+      <button
+        onClick={() => onDelete(phrase.id)}
+        className="p-1.5 rounded-full text-gray-300 dark:text-gray-500 hover:text-red-500 transition-colors"
+        aria-label={`Borrar "${phrase.text}"`}
+      >
+        <X size={18} />
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="relative container mx-auto px-4 pt-2 flex items-center gap-2">
+      <button
+        onClick={() => setIsHistoryOpen(prev => !prev)}
+        className={`shrink-0 p-2 rounded-xl transition-colors ${isHistoryOpen ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+        aria-expanded={isHistoryOpen}
+        title="Frases recientes y fijadas"
+      >
+        <History size={20} />
+      </button>
+
+      <div className="flex-1 overflow-x-auto flex items-center gap-2 scrollbar-hide">
+        {pinnedPhrases.map(phrase => (
+          <button
+            key={phrase.id}
+            onClick={() => handlePlay(phrase)}
+            disabled={disabled}
+            className="shrink-0 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200 font-semibold text-sm hover:bg-amber-200 dark:hover:bg-amber-900/60 transition-colors disabled:opacity-50"
+          >
+            <Star size={14} fill="currentColor" />
+            {phrase.text}
+          </button>
+        ))}
+      </div>
+
+      {isHistoryOpen && (
+        <div className="absolute bottom-full left-4 mb-2 w-80 max-w-[calc(100vw-2rem)] max-h-80 overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-100 dark:border-gray-700 p-3 animate-in fade-in">
+          {pinnedPhrases.length > 0 && (
+            <>
+              <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Fijadas</h4>
+              <ul className="mb-3">{pinnedPhrases.map(renderHistoryItem)}</ul>
+            </>
+          )}
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Recientes</h4>
+          {phraseHistory.length > 0 ? (
+            <ul>{phraseHistory.map(renderHistoryItem)}</ul>
+          ) : (
+            <p className="text-sm text-gray-400 dark:text-gray-500 px-3 py-2">Las frases que digas aparecerán aquí.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhraseBar;
@@ -1,46 +1,172 @@
-import React, { useState } from 'react';
-import { Play, Trash2, XCircle } from 'lucide-react';
-import { playAudio } from '../../services/geminiService';
+import React, { useRef, useState } from 'react';
+import { Play, Square, Trash2, XCircle, MessageSquareText, Star } from 'lucide-react';
+import { Pictogram, SavedPhrase } from '../../types';
+import { playAudio, playSequence, stopPlayback } from '../../services/audioPlayer';
+import { composePhrase, getPhraseAudio } from '../../services/phraseAudioService';
+import { completeSentence } from '../../services/grammarService';
 import { useUIContext } from '../../context/UIContext';
+import { usePreferencesContext } from '../../context/PreferencesContext';
+import PhraseBar from './PhraseBar';
+
+const sequenceKey = (pictograms: Pictogram[]) => pictograms.map(p => p.id).join(',');
 
 const SentenceStrip: React.FC = () => {
-  const { sentence, removeFromSentence, clearSentence } = useUIContext();
+  const {
+    sentence, removeFromSentence, clearSentence,
+    pinnedPhrases, phraseHistory, loadPhrase, recordSpokenPhrase, pinPhrase, setPhrasePinned, deletePhrase
+  } = useUIContext();
+  const { preferences, updatePreferences, activeVoice } = usePreferencesContext();
   const [isPlayingSequence, setIsPlayingSequence] = useState(false);
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [isSpeakingPhrase, setIsSpeakingPhrase] = useState(false);
+  // The shown sentence belongs to the exact sequence it was built from
+  const [spoken, setSpoken] = useState<{ key: string; text: string } | null>(null);
+  const spokenText = spoken?.key === sequenceKey(sentence) ? spoken.text : null;
+  const stopRequested = useRef(false); // Stop pressed while the sentence was still being prepared
+  const currentPinned = pinnedPhrases.find(p => p.pictogramIds.join(',') === sequenceKey(sentence));
+
+  /**
+   * Speaks each word in turn; the highlight moves as each clip starts.
+   * Resolves false if playback was stopped.
+   */
+  const playWordByWord = (items: Pictogram[]): Promise<boolean> =>
+    playSequence(items, { onClipStart: setActiveIndex });
+
+  /**
+   * Speaks the strip as one utterance. Resolves null when the phrase can't be
+   * produced (offline and never spoken before, or synthesis failed), otherwise
+   * whether it played to the end.
+   */
+  const playPhrase = async (text: string): Promise<boolean | null> => {
+    let audioBase64: string;
+    try {
+      audioBase64 = await getPhraseAudio(text, activeVoice);
+    } catch (e) {
+      console.warn("Natural phrase unavailable, falling back to word by word", e);
+      return null;
+    }
+    if (stopRequested.current) return false;
+
+    setIsSpeakingPhrase(true);
+    try {
+      return await playAudio(audioBase64);
+    } finally {
+      setIsSpeakingPhrase(false);
+    }
+  };
 
-  const handlePlaySequence = async () => {
-    if (isPlayingSequence || sentence.length === 0) return;
+  /**
+   * Speaks a sequence (the strip, or a saved phrase just loaded into it)
+   * and adds it to the history once it was heard to the end.
+   */
+  const speak = async (items: Pictogram[]) => {
+    if (isPlayingSequence || items.length === 0) return;
     
     setIsPlayingSequence(true);
+    stopRequested.current = false;
     
     try {
-      for (let i = 0; i < sentence.length; i++) {
-        setActiveIndex(i);
-        await playAudio(sentence[i].audioBase64);
-        // Simple delay between words
-        await new Promise(resolve => setTimeout(resolve, 1200));
+      let text = composePhrase(items);
+      let isCorrected = false;
+      if (preferences.completeGrammar) {
+        const completed = await completeSentence(items.map(p => p.word));
+        setSpoken({ key: sequenceKey(items), text: completed.text });
+        text = completed.text;
+        isCorrected = completed.isCorrected;
+      }
+      if (stopRequested.current) return;
+
+      // A corrected sentence can only be heard as a whole phrase
+      const phraseResult = (preferences.speakNaturally || isCorrected) ? await playPhrase(text) : null;
+      const completed = phraseResult ?? await playWordByWord(items);
+
+      if (completed) {
+        recordSpokenPhrase(items, text).catch(e => console.error("Failed to save sentence history", e));
       }
     } catch (e) {
       console.error("Sequence playback error", e);
     } finally {
       setActiveIndex(null);
+      setIsSpeakingPhrase(false);
       setIsPlayingSequence(false);
     }
   };
 
-  if (sentence.length === 0) return null;
+  const handlePlaySequence = () => speak(sentence);
+
+  const handleStop = () => {
+    stopRequested.current = true;
+    stopPlayback();
+  };
+
+  const handlePlaySaved = (phrase: SavedPhrase) => {
+    if (isPlayingSequence) return;
+    speak(loadPhrase(phrase));
+  };
+
+  const handleTogglePin = () => {
+    if (currentPinned) {
+      setPhrasePinned(currentPinned.id, false).catch(e => console.error("Failed to unpin phrase", e));
+    } else {
+      pinPhrase(sentence, spokenText || composePhrase(sentence)).catch(e => console.error("Failed to pin phrase", e));
+    }
+  };
+
+  if (sentence.length === 0 && pinnedPhrases.length === 0 && phraseHistory.length === 0) return null;
+
+  const phraseBar = (
+    <PhraseBar
+      pinnedPhrases={pinnedPhrases}
+      phraseHistory={phraseHistory}
+      onPlay={handlePlaySaved}
+      onSetPinned={(id, pinned) => setPhrasePinned(id, pinned).catch(e => console.error("Failed to update phrase", e))}
+      onDelete={(id) => deletePhrase(id).catch(e => console.error("Failed to delete phrase", e))}
+      disabled={isPlayingSequence}
+    />
+  );
+
+  // Only saved phrases to offer: a slim bar instead of the whole strip
+  if (sentence.length === 0) {
+    return (
+      <div className="fixed bottom-0 left-0 right-0 z-50 bg-white dark:bg-gray-800 border-t-4 border-blue-400 shadow-[0_-5px_20px_rgba(0,0,0,0.1)] pb-2 transition-all duration-300">
+        {phraseBar}
+      </div>
+    );
+  }
 
   return (
     <div className="fixed bottom-0 left-0 right-0 z-50 bg-white dark:bg-gray-800 border-t-4 border-blue-400 shadow-[0_-5px_20px_rgba(0,0,0,0.1)] transition-all duration-300 animate-in slide-in-from-bottom-full">
+      {phraseBar}
+
+      {/* Sentence as it will be spoken */}
+      {spokenText && (
+        <div className="container mx-auto px-4 pt-2">
+          <p className="text-lg font-semibold text-blue-700 dark:text-blue-300 truncate" aria-live="polite">{spokenText}</p>
+        </div>
+      )}
       <div className="container mx-auto px-4 py-3 flex items-center gap-4">
         
-        {/* Play Button */}
+        {/* Play / Stop Button */}
+        <button
+          onClick={isPlayingSequence ? handleStop : handlePlaySequence}
+          aria-label={isPlayingSequence ? 'Detener' : 'Reproducir frase'}
+          className={`shrink-0 w-16 h-16 rounded-full flex items-center justify-center shadow-lg transition-all transform hover:scale-105 ${isPlayingSequence ? 'bg-yellow-400 hover:bg-yellow-500 text-white' : 'bg-green-500 hover:bg-green-600 text-white'}`}
+        >
+          {isPlayingSequence
+            ? <Square size={28} fill="currentColor" className="animate-pulse" />
+            : <Play size={32} fill="currentColor" />}
+        </button>
+
+        {/* Natural speech toggle */}
         <button
-          onClick={handlePlaySequence}
+          onClick={() => updatePreferences({ speakNaturally: !preferences.speakNaturally })}
           disabled={isPlayingSequence}
-          className={`shrink-0 w-16 h-16 rounded-full flex items-center justify-center shadow-lg transition-all transform hover:scale-105 ${isPlayingSequence ? 'bg-yellow-400 cursor-wait' : 'bg-green-500 hover:bg-green-600 text-white'}`}
+          aria-pressed={preferences.speakNaturally}
+          title={preferences.speakNaturally ? 'Hablar natural: una sola frase' : 'Palabra por palabra'}
+          className={`shrink-0 p-2 rounded-xl flex flex-col items-center text-[10px] font-bold gap-0.5 transition-colors disabled:opacity-50 ${preferences.speakNaturally ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
         >
-          <Play size={32} fill="currentColor" className={isPlayingSequence ? "text-white animate-pulse" : ""} />
+          <MessageSquareText size={22} />
+          {preferences.speakNaturally ? 'Natural' : 'Palabras'}
         </button>
 
         {/* The Strip */}
@@ -48,7 +174,7 @@ const SentenceStrip: React.FC = () => {
           {sentence.map((pic, index) => (
             <div 
               key={`${pic.id}-${index}`}
-              className={`relative group shrink-0 w-24 h-24 bg-gray-50 dark:bg-gray-700 rounded-lg border-2 flex flex-col items-center justify-center p-1 transition-all duration-300 ${activeIndex === index ? 'border-yellow-400 scale-110 shadow-lg ring-2 ring-yellow-200' : 'border-gray-200 dark:border-gray-600'}`}
+              className={`relative group shrink-0 w-24 h-24 bg-gray-50 dark:bg-gray-700 rounded-lg border-2 flex flex-col items-center justify-center p-1 transition-all duration-300 ${activeIndex === index || isSpeakingPhrase ? 'border-yellow-400 scale-110 shadow-lg ring-2 ring-yellow-200' : 'border-gray-200 dark:border-gray-600'}`}
             >
               <img src={pic.imageUrl} alt={pic.word} className="w-14 h-14 object-contain mb-1" />
               <span className="text-[10px] font-bold uppercase truncate max-w-full text-gray-700 dark:text-gray-200">{pic.word}</span>
@@ -63,6 +189,16 @@ const SentenceStrip: React.FC = () => {
           ))}
         </div>
 
+        {/* Pin Button */}
+        <button
+          onClick={handleTogglePin}
+          className={`shrink-0 p-3 rounded-xl transition-colors flex flex-col items-center text-xs font-bold gap-1 ${currentPinned ? 'text-amber-500 bg-amber-50 dark:bg-amber-900/20' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+          aria-pressed={!!currentPinned}
+        >
+          <Star size={24} fill={currentPinned ? 'currentColor' : 'none'} />
+          {currentPinned ? 'Fijada' : 'Fijar'}
+        </button>
+
         {/* Clear Button */}
         <button
           onClick={clearSentence}
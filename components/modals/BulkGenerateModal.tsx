@@ -0,0 +1,341 @@
+import React, { useState, useRef } from 'react';
+import { X, Wand2, Save, Loader2, Volume2, FileText, RefreshCw, AlertCircle, ArrowLeft, Trash2 } from 'lucide-react';
+import { playAudio } from '../../services/audioPlayer';
+import { parseBulkInput } from '../../services/bulkImport';
+import { audioFileName, describeAudio } from '../../services/audioProcessing';
+import { storage } from '../../services/repositories';
+import { useBulkGeneration } from '../../hooks/useBulkGeneration';
+import { usePreferencesContext } from '../../context/PreferencesContext';
+import { Pictogram, PictogramCategory } from '../../types';
+import { CATEGORY_OPTIONS, BULK_MAX_ROWS, VOICE_OPTIONS, getVoiceOption } from '../../constants';
+import StylePicker from '../pickers/StylePicker';
+import { v4 as uuidv4 } from 'uuid';
+
+interface BulkGenerateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (pictograms: Pictogram[]) => Promise<number>; // Resolves with how many were saved
+}
+
+const BulkGenerateModal: React.FC<BulkGenerateModalProps> = ({ isOpen, onClose, onSave }) => {
+  const { preferences, activeVoice } = usePreferencesContext();
+
+  const [step, setStep] = useState<'input' | 'review'>('input');
+  const [text, setText] = useState('');
+  const [defaultVoice, setDefaultVoice] = useState(activeVoice.voiceId);
+  const [selectedStyle, setSelectedStyle] = useState(preferences.defaultStyleId);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedCount, setSavedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { items, isRunning, loadRows, generate, retryFailed, retryItem, updateItem, removeItem, reset } = useBulkGeneration(selectedStyle);
+
+  // Reset state when opening; closing cancels whatever is still queued
+  React.useEffect(() => {
+    reset();
+    if (isOpen) {
+      setStep('input');
+      setText('');
+      setDefaultVoice(activeVoice.voiceId);
+      setSelectedStyle(preferences.defaultStyleId);
+      setIsSaving(false);
+      setSavedCount(0);
+      setError(null);
+    }
+  }, [isOpen, preferences.defaultStyleId, activeVoice.voiceId, reset]);
+
+  if (!isOpen) return null;
+
+  const parsed = parseBulkInput(text);
+  const readyCount = items.filter(i => i.status === 'ready').length;
+  const failedCount = items.filter(i => i.status === 'error').length;
+  const toSave = items.filter(i => i.status === 'ready' && i.included);
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setText(await file.text());
+    } catch (err) {
+      console.error("CSV read error:", err);
+      setError("No se pudo leer el archivo.");
+    }
+  };
+
+  const handleStart = () => {
+    if (parsed.rows.length === 0) return;
+    setError(null);
+    setStep('review');
+    generate(loadRows(parsed.rows, { ...activeVoice, voiceId: defaultVoice }));
+  };
+
+  const handleBack = () => {
+    reset();
+    setStep('input');
+  };
+
+  const handleSave = async () => {
+    if (toSave.length === 0) return;
+    setIsSaving(true);
+    setSavedCount(0);
+    setError(null);
+
+    try {
+      const pictograms: Pictogram[] = [];
+      for (const item of toSave) {
+        const imageUrl = await storage.pictograms.upload(item.image!, `pictogram-${Date.now()}-${pictograms.length}.png`);
+        const audioUrl = await storage.pictograms.uploadAudio(item.audio!, audioFileName(`audio-${Date.now()}-${pictograms.length}`, item.audio!));
+        pictograms.push({
+          id: uuidv4(),
+          word: item.word.toUpperCase(),
+          imageUrl,
+          audioUrl,
+          audioFormat: describeAudio(item.audio!),
+          createdAt: Date.now(),
+          voiceId: item.voice.voiceId,
+          voice: item.voice,
+          isCustomAudio: false,
+          category: item.category,
+          styleId: selectedStyle
+        });
+        setSavedCount(pictograms.length);
+      }
+
+      await onSave(pictograms);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError("Error guardando los pictogramas. Intenta de nuevo.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-fade-in-up transition-colors duration-300 my-8">
+
+        {/* Header */}
+        <div className="bg-indigo-500 dark:bg-indigo-600 p-6 flex justify-between items-center transition-colors duration-300">
+          <h2 className="text-2xl font-bold text-white">Generar en Lote</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-white/80 hover:text-white transition-colors">
+            <X size={32} />
+          </button>
+        </div>
+
+        {/* Body */}
+        {step === 'input' ? (
+          <div className="p-6 space-y-6">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-semibold text-gray-600 dark:text-gray-300">Palabras (una por línea) o CSV</label>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-sm text-indigo-600 dark:text-indigo-300 font-semibold flex items-center gap-1 hover:underline"
+                >
+                  <FileText size={16} /> Subir CSV
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleCsvFile} />
+              </div>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={8}
+                placeholder={"manzana\nagua\ndormir\n\nO con columnas:\npalabra,categoría,voz\nmamá,personas,Mujer"}
+                className="w-full p-3 border-2 border-gray-200 dark:border-gray-600 rounded-xl focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 dark:focus:ring-indigo-900/50 outline-none transition-all bg-white dark:bg-gray-700 dark:text-white dark:placeholder-gray-400 font-mono text-sm"
+              />
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                {parsed.rows.length} palabra{parsed.rows.length === 1 ? '' : 's'}
+                {parsed.skipped > 0 && ` · ${parsed.skipped} repetidas u omitidas (máximo ${BULK_MAX_ROWS})`}
+              </p>
+            </div>
+
+            {/* Default Voice (CSV rows can override it) */}
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Voz por defecto</label>
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {VOICE_OPTIONS.map(voice => (
+                  <button
+                    key={voice.id}
+                    type="button"
+                    onClick={() => setDefaultVoice(voice.id)}
+                    title={voice.description}
+                    className={`px-3 py-2 text-sm rounded-lg border transition-all ${defaultVoice === voice.id
+                      ? 'bg-indigo-100 dark:bg-indigo-900 border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-200 font-bold shadow-sm'
+                      : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                  >
+                    {voice.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Estilo</label>
+              <StylePicker value={selectedStyle} onChange={setSelectedStyle} />
+            </div>
+
+            {error && (
+              <div className="text-red-500 text-center bg-red-50 dark:bg-red-900/20 p-4 rounded-xl border border-red-100 dark:border-red-900/50">
+                <p>{error}</p>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={parsed.rows.length === 0}
+              className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all text-lg shadow-lg shadow-indigo-200 dark:shadow-none"
+            >
+              <Wand2 size={24} />
+              Generar {parsed.rows.length > 0 ? parsed.rows.length : ''} pictogramas
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            {/* Progress */}
+            <div>
+              <div className="flex justify-between text-sm font-semibold text-gray-600 dark:text-gray-300 mb-1">
+                <span>{readyCount} de {items.length} listos</span>
+                {failedCount > 0 && <span className="text-red-500">{failedCount} con error</span>}
+              </div>
+              <div className="w-full h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all duration-300"
+                  style={{ width: `${items.length ? ((readyCount + failedCount) / items.length) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+
+            {failedCount > 0 && !isRunning && (
+              <button
+                type="button"
+                onClick={retryFailed}
+                className="w-full py-2 bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-300 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+              >
+                <RefreshCw size={18} /> Reintentar {failedCount} fallido{failedCount === 1 ? '' : 's'}
+              </button>
+            )}
+
+            {/* Rows */}
+            <ul className="max-h-[50vh] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-2xl">
+              {items.map(item => (
+                <li key={item.key} className={`flex items-center gap-3 p-2 ${item.status === 'ready' && !item.included ? 'opacity-50' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={item.included && item.status === 'ready'}
+                    disabled={item.status !== 'ready' || isSaving}
+                    onChange={() => updateItem(item.key, { included: !item.included })}
+                    className="w-5 h-5 accent-green-500"
+                    aria-label={`Incluir ${item.word}`}
+                  />
+                  <div className="w-14 h-14 shrink-0 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-center p-1">
+                    {item.status === 'ready' && item.image ? (
+                      <img src={item.image} alt={item.word} className="w-full h-full object-contain" />
+                    ) : item.status === 'error' ? (
+                      <AlertCircle size={24} className="text-red-400" />
+                    ) : item.status === 'generating' ? (
+                      <Loader2 size={24} className="animate-spin text-indigo-400" />
+                    ) : (
+                      <span className="w-2 h-2 rounded-full bg-gray-300 dark:bg-gray-600" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold uppercase text-gray-800 dark:text-gray-100 truncate">{item.word}</p>
+                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                      <select
+                        value={item.category || ''}
+                        onChange={(e) => updateItem(item.key, { category: (e.target.value || undefined) as PictogramCategory | undefined })}
+                        disabled={isSaving}
+                        className="bg-transparent border border-gray-200 dark:border-gray-600 rounded px-1 py-0.5 dark:bg-gray-800"
+                      >
+                        <option value="">Sin categoría</option>
+                        {CATEGORY_OPTIONS.map(option => (
+                          <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                      </select>
+                      <span>{getVoiceOption(item.voice.voiceId).label}</span>
+                      {item.status === 'error' && <span className="text-red-500">{item.error}</span>}
+                    </div>
+                  </div>
+                  {item.audio && (
+                    <button
+                      type="button"
+                      onClick={() => playAudio(item.audio!)}
+                      className="p-2 rounded-full text-yellow-700 bg-yellow-100 hover:bg-yellow-200 dark:bg-yellow-900 dark:text-yellow-200"
+                      aria-label={`Escuchar ${item.word}`}
+                    >
+                      <Volume2 size={16} />
+                    </button>
+                  )}
+                  {item.status !== 'generating' && item.status !== 'pending' && (
+                    <button
+                      type="button"
+                      onClick={() => retryItem(item.key)}
+                      disabled={isRunning || isSaving}
+                      className="p-2 rounded-full text-indigo-600 hover:bg-indigo-50 dark:text-indigo-300 dark:hover:bg-gray-700 disabled:opacity-50"
+                      aria-label={`Regenerar ${item.word}`}
+                      title="Regenerar"
+                    >
+                      <RefreshCw size={16} />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeItem(item.key)}
+                    disabled={item.status === 'generating' || isSaving}
+                    className="p-2 rounded-full text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                    aria-label={`Quitar ${item.word}`}
+                    title="Quitar"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {error && (
+              <div className="text-red-500 text-center bg-red-50 dark:bg-red-900/20 p-4 rounded-xl border border-red-100 dark:border-red-900/50">
+                <p>{error}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Footer / Save Actions */}
+        {step === 'review' && (
+          <div className="p-6 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-700 flex gap-4 transition-colors duration-300">
+            <button
+              onClick={handleBack}
+              disabled={isSaving}
+              className="flex-1 py-3 text-gray-600 dark:text-gray-300 font-semibold hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <ArrowLeft size={20} /> Volver
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isRunning || isSaving || toSave.length === 0}
+              className="flex-1 py-3 bg-green-500 hover:bg-green-600 disabled:bg-green-300 disabled:cursor-not-allowed text-white font-bold rounded-xl shadow-lg shadow-green-200 dark:shadow-none flex items-center justify-center gap-2 transition-all"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 size={24} className="animate-spin" />
+                  Guardando {savedCount}/{toSave.length}
+                </>
+              ) : (
+                <>
+                  <Save size={24} />
+                  Guardar {toSave.length}
+                </>
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkGenerateModal;
@@ -1,10 +1,27 @@
-import React, { useState } from 'react';
-import { X, Wand2, Save, Loader2, Volume2, Image as ImageIcon } from 'lucide-react';
-import { generatePictogramImage, generatePictogramAudio, playAudio, VOICE_OPTIONS } from '../../services/geminiService';
-import { uploadImageToS3 } from '../../services/storageService';
-import { ProcessingState, Pictogram } from '../../types';
+import React, { useState, useRef } from 'react';
+import { X, Wand2, Save, Loader2, Volume2, Image as ImageIcon, Mic, RefreshCw, Check, AlertCircle, Upload } from 'lucide-react';
+import { playAudio } from '../../services/audioPlayer';
+import { generation } from '../../services/providers';
+import { storage } from '../../services/repositories';
+import { runGenerationJob, isGenerationCancelled } from '../../services/generationQueue';
+import { ProcessingState, Pictogram, PictogramCategory, VoiceSettings } from '../../types';
+import { CATEGORY_OPTIONS, IMAGE_CANDIDATE_COUNT, getVoiceOption, voiceKey } from '../../constants';
+import VoiceRecorder from '../audio/VoiceRecorder';
+import StylePicker from '../pickers/StylePicker';
+import VoicePicker from '../pickers/VoicePicker';
+import PhotoInput from '../pickers/PhotoInput';
+import { prepareReferencePhoto, prepareImportedImage } from '../../services/imageProcessing';
+import { audioFileName, describeAudio } from '../../services/audioProcessing';
+import { usePreferencesContext } from '../../context/PreferencesContext';
 import { v4 as uuidv4 } from 'uuid';
 
+interface ImageCandidate {
+  image: string | null;
+  status: 'loading' | 'ready' | 'error';
+}
+
+type ImageSource = 'ai' | 'import';
+
 interface CreateModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -12,54 +29,178 @@ interface CreateModalProps {
 }
 
 const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) => {
+  const { preferences, activeVoice, setActiveVoice } = usePreferencesContext();
   const [word, setWord] = useState('');
   const [state, setState] = useState<ProcessingState>(ProcessingState.IDLE);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<ImageCandidate[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState<number | null>(null);
   const [generatedAudio, setGeneratedAudio] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Image source: AI generation or the family's own photo/drawing
+  const [imageSource, setImageSource] = useState<ImageSource>('ai');
+  const [importedImage, setImportedImage] = useState<string | null>(null);
+
   // Voice Settings
-  const [selectedVoice, setSelectedVoice] = useState(VOICE_OPTIONS[0].id);
+  const [selectedVoice, setSelectedVoice] = useState<VoiceSettings>(activeVoice);
+  const [useRecordedVoice, setUseRecordedVoice] = useState(false);
+  const [recordedAudio, setRecordedAudio] = useState<string | null>(null);
+
+  // Category (Fitzgerald Key)
+  const [selectedCategory, setSelectedCategory] = useState<PictogramCategory | undefined>(undefined);
+
+  // Image style preset
+  const [selectedStyle, setSelectedStyle] = useState(preferences.defaultStyleId);
+
+  // Optional photo of the child's real object
+  const [referencePhoto, setReferencePhoto] = useState<string | null>(null);
+  const [isPreparingPhoto, setIsPreparingPhoto] = useState(false);
   
+  // Generation jobs started from this dialog are cancelled when it closes
+  const abortRef = useRef<AbortController | null>(null);
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => controller.abort();
+  }, [isOpen]);
+
   // Reset state when opening
   React.useEffect(() => {
     if (isOpen) {
       setWord('');
       setState(ProcessingState.IDLE);
-      setGeneratedImage(null);
+      setCandidates([]);
+      setSelectedCandidate(null);
       setGeneratedAudio(null);
       setError(null);
-      setSelectedVoice(VOICE_OPTIONS[0].id);
+      setSelectedVoice(activeVoice); // Read on open only: saving it as the default must not reset the form
+      setUseRecordedVoice(false);
+      setRecordedAudio(null);
+      setSelectedCategory(undefined);
+      setSelectedStyle(preferences.defaultStyleId);
+      setReferencePhoto(null);
+      setImageSource('ai');
+      setImportedImage(null);
     }
-  }, [isOpen]);
+  }, [isOpen, preferences.defaultStyleId]);
+
+  // Only the imported image or the picked candidate gets saved
+  const isImport = imageSource === 'import';
+  const generatedImage = isImport
+    ? importedImage
+    : selectedCandidate !== null ? candidates[selectedCandidate]?.image ?? null : null;
+  const hasPreview = isImport ? importedImage !== null : candidates.length > 0;
+
+  const updateCandidate = (index: number, candidate: ImageCandidate) => {
+    setCandidates(prev => prev.map((c, i) => i === index ? candidate : c));
+  };
+
+  const generateCandidate = async (index: number): Promise<string | null> => {
+    updateCandidate(index, { image: null, status: 'loading' });
+    try {
+      const image = await runGenerationJob(
+        'image',
+        `Imagen ${index + 1}: ${word}`,
+        signal => generation.image.generate(word, selectedStyle, referencePhoto ?? undefined, signal),
+        { signal: abortRef.current?.signal }
+      );
+      updateCandidate(index, { image, status: 'ready' });
+      return image;
+    } catch (imgError) {
+      console.error(`Image generation error (candidate ${index + 1}):`, imgError);
+      updateCandidate(index, { image: null, status: 'error' });
+      return null;
+    }
+  };
+
+  const handleReferencePhoto = async (file: File) => {
+    setError(null);
+    setIsPreparingPhoto(true);
+    try {
+      setReferencePhoto(await prepareReferencePhoto(file));
+    } catch (err) {
+      console.error("Reference photo error:", err);
+      setError("No se pudo leer la foto. Intenta con otra.");
+    } finally {
+      setIsPreparingPhoto(false);
+    }
+  };
+
+  const handleImageSourceChange = (source: ImageSource) => {
+    setImageSource(source);
+    setError(null);
+    if (state === ProcessingState.ERROR) setState(ProcessingState.IDLE);
+  };
+
+  const handleImportImage = async (file: File) => {
+    setError(null);
+    setIsPreparingPhoto(true);
+    try {
+      setImportedImage(await prepareImportedImage(file));
+    } catch (err) {
+      console.error("Image import error:", err);
+      setError("No se pudo leer la imagen. Intenta con otra.");
+    } finally {
+      setIsPreparingPhoto(false);
+    }
+  };
+
+  const handleRegenerateCandidate = async (index: number) => {
+    setError(null);
+    const image = await generateCandidate(index);
+    if (image && selectedCandidate === null) {
+      setSelectedCandidate(index);
+    }
+  };
 
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!word.trim()) return;
+    if (isImport && !importedImage) return;
 
     setError(null);
-    setState(ProcessingState.GENERATING_IMAGE);
+    setState(isImport ? ProcessingState.GENERATING_AUDIO : ProcessingState.GENERATING_IMAGE);
 
     try {
-      // 1. Generate Image
-      let imageBase64: string;
-      try {
-        imageBase64 = await generatePictogramImage(word);
-        setGeneratedImage(imageBase64);
-      } catch (imgError) {
-        console.error("Image generation error:", imgError);
-        throw new Error("No se pudo generar la imagen. Intenta reformular la palabra.");
+      // 1. Generate several image candidates in parallel (imported images skip this)
+      if (!isImport) {
+        setCandidates(Array.from({ length: IMAGE_CANDIDATE_COUNT }, () => ({ image: null, status: 'loading' as const })));
+        setSelectedCandidate(null);
+
+        const results = await Promise.all(
+          Array.from({ length: IMAGE_CANDIDATE_COUNT }, (_, i) => generateCandidate(i))
+        );
+        const firstReady = results.findIndex(image => image !== null);
+        if (firstReady === -1) {
+          throw new Error("No se pudo generar la imagen. Intenta reformular la palabra.");
+        }
+        setSelectedCandidate(firstReady);
       }
       
+      // A recorded voice replaces TTS entirely
+      if (useRecordedVoice) {
+        setState(ProcessingState.COMPLETE);
+        return;
+      }
+
       // 2. Generate Audio
       setState(ProcessingState.GENERATING_AUDIO);
       let audioBase64: string;
       try {
-        audioBase64 = await generatePictogramAudio(word, selectedVoice);
+        audioBase64 = await runGenerationJob(
+          'audio',
+          `Voz: ${word}`,
+          signal => generation.speech.synthesize(word, selectedVoice, signal),
+          { signal: abortRef.current?.signal }
+        );
         setGeneratedAudio(audioBase64);
       } catch (audioError) {
+         if (isGenerationCancelled(audioError)) throw audioError;
          console.error("Audio generation error:", audioError);
-         throw new Error("La imagen se creó, pero falló el audio. Intenta de nuevo.");
+         throw new Error(isImport
+           ? "No se pudo crear la voz. Intenta de nuevo."
+           : "La imagen se creó, pero falló el audio. Intenta de nuevo.");
       }
       
       // Auto play
@@ -74,24 +215,34 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
     }
   };
 
+  // The clip that will be saved: the parent's recording or the generated TTS
+  const finalAudio = useRecordedVoice ? recordedAudio : generatedAudio;
+
   const handleSave = async () => {
-    if (!generatedImage || !generatedAudio || !word) {
+    if (!generatedImage || !finalAudio || !word) {
         setError("Falta la imagen o el audio.");
         return;
     }
 
     setState(ProcessingState.UPLOADING);
     try {
-        const imageUrl = await uploadImageToS3(generatedImage, `pictogram-${Date.now()}.png`);
+        const extension = isImport ? 'jpg' : 'png';
+        const imageUrl = await storage.pictograms.upload(generatedImage, `pictogram-${Date.now()}.${extension}`);
+        const audioUrl = await storage.pictograms.uploadAudio(finalAudio, audioFileName(`audio-${Date.now()}`, finalAudio));
         
         const newPictogram: Pictogram = {
             id: uuidv4(),
             word: word.toUpperCase(),
             imageUrl: imageUrl,
-            audioBase64: generatedAudio,
+            audioUrl,
+            audioFormat: describeAudio(finalAudio),
             createdAt: Date.now(),
-            voiceId: selectedVoice,
-            isCustomAudio: false
+            voiceId: useRecordedVoice ? undefined : selectedVoice.voiceId,
+            voice: useRecordedVoice ? undefined : selectedVoice,
+            isCustomAudio: useRecordedVoice,
+            category: selectedCategory,
+            styleId: isImport ? undefined : selectedStyle,
+            isCustomImage: isImport
         };
 
         onSave(newPictogram);
@@ -138,20 +289,143 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
               />
             </div>
 
+            {/* Image Source */}
+            <div>
+                <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Imagen</label>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => handleImageSourceChange('ai')}
+                        disabled={isProcessing}
+                        className={`px-3 py-2 text-sm rounded-lg border transition-all flex-1 flex items-center justify-center gap-1 ${!isImport 
+                            ? 'bg-blue-100 dark:bg-blue-900 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-200 font-bold shadow-sm' 
+                            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                    >
+                        <Wand2 size={14} /> Generar con IA
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => handleImageSourceChange('import')}
+                        disabled={isProcessing}
+                        className={`px-3 py-2 text-sm rounded-lg border transition-all flex-1 flex items-center justify-center gap-1 ${isImport 
+                            ? 'bg-blue-100 dark:bg-blue-900 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-200 font-bold shadow-sm' 
+                            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                    >
+                        <Upload size={14} /> Usar mi imagen
+                    </button>
+                </div>
+                {isImport && (
+                    <div className="mt-3">
+                        {isPreparingPhoto ? (
+                            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                                <Loader2 size={18} className="animate-spin" /> Preparando imagen...
+                            </div>
+                        ) : (
+                            <PhotoInput onSelect={handleImportImage} disabled={isProcessing} />
+                        )}
+                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Se recorta al centro en forma cuadrada.</p>
+                    </div>
+                )}
+            </div>
+
             {/* Voice Options */}
             <div>
                 <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Voz</label>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setUseRecordedVoice(false)}
+                        className={`px-3 py-2 text-sm rounded-lg border transition-all flex-1 flex items-center justify-center gap-1 ${!useRecordedVoice 
+                            ? 'bg-blue-100 dark:bg-blue-900 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-200 font-bold shadow-sm' 
+                            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                    >
+                        <Volume2 size={14} /> Voz generada
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setUseRecordedVoice(true)}
+                        className={`px-3 py-2 text-sm rounded-lg border transition-all flex-1 flex items-center justify-center gap-1 ${useRecordedVoice 
+                            ? 'bg-red-100 dark:bg-red-900/50 border-red-300 dark:border-red-700 text-red-700 dark:text-red-200 font-bold shadow-sm' 
+                            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                    >
+                        <Mic size={14} /> Mi voz
+                    </button>
+                </div>
+                {useRecordedVoice ? (
+                    <div className="mt-3">
+                        <VoiceRecorder value={recordedAudio} onChange={setRecordedAudio} disabled={isProcessing} />
+                    </div>
+                ) : (
+                    <div className="mt-3">
+                        <VoicePicker value={selectedVoice} onChange={setSelectedVoice} disabled={isProcessing} />
+                        {voiceKey(selectedVoice) !== voiceKey(activeVoice) && (
+                            <button
+                                type="button"
+                                onClick={() => setActiveVoice(selectedVoice)}
+                                className="mt-2 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                                Usar esta voz por defecto
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {!isImport && (
+                <>
+                {/* Reference Photo */}
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Foto del objeto real (opcional)</label>
+                    {referencePhoto ? (
+                        <div className="flex items-center gap-3">
+                            <div className="relative w-20 h-20 rounded-xl overflow-hidden border-2 border-blue-300 dark:border-blue-700 shrink-0">
+                                <img src={referencePhoto} alt="Foto de referencia" className="w-full h-full object-cover" />
+                                <button
+                                    type="button"
+                                    onClick={() => setReferencePhoto(null)}
+                                    disabled={isProcessing}
+                                    className="absolute top-0.5 right-0.5 bg-white/90 text-red-500 rounded-full p-0.5 shadow hover:bg-white disabled:opacity-50"
+                                    aria-label="Quitar foto"
+                                    title="Quitar foto"
+                                >
+                                    <X size={14} />
+                                </button>
+                            </div>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">El pictograma se parecerá a este objeto.</p>
+                        </div>
+                    ) : isPreparingPhoto ? (
+                        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                            <Loader2 size={18} className="animate-spin" /> Preparando foto...
+                        </div>
+                    ) : (
+                        <PhotoInput onSelect={handleReferencePhoto} disabled={isProcessing} />
+                    )}
+                </div>
+
+                {/* Style Options */}
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Estilo</label>
+                    <StylePicker value={selectedStyle} onChange={setSelectedStyle} disabled={isProcessing} />
+                </div>
+                </>
+            )}
+
+            {/* Category Options */}
+            <div>
+                <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Categoría</label>
                 <div className="flex flex-wrap gap-2">
-                    {VOICE_OPTIONS.map(voice => (
+                    {CATEGORY_OPTIONS.map(category => (
                         <button
-                            key={voice.id}
+                            key={category.id}
                             type="button"
-                            onClick={() => setSelectedVoice(voice.id)}
-                            className={`px-3 py-2 text-sm rounded-lg border transition-all flex-1 ${selectedVoice === voice.id 
-                                ? 'bg-blue-100 dark:bg-blue-900 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-200 font-bold shadow-sm' 
-                                : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                            onClick={() => setSelectedCategory(prev => prev === category.id ? undefined : category.id as PictogramCategory)}
+                            disabled={isProcessing}
+                            className={`px-3 py-1.5 text-sm rounded-full border-2 transition-all flex items-center gap-1.5 ${category.chipClass} ${selectedCategory === category.id 
+                                ? `${category.borderClass} font-bold shadow-sm` 
+                                : 'border-transparent opacity-70 hover:opacity-100'}`}
                         >
-                            {voice.label}
+                            <span className={`w-2.5 h-2.5 rounded-full ${category.dotClass}`}></span>
+                            {category.label}
                         </button>
                     ))}
                 </div>
@@ -160,7 +434,7 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
             {/* Generate Button */}
             <button 
                 type="submit"
-                disabled={!word.trim() || isProcessing}
+                disabled={!word.trim() || isProcessing || isPreparingPhoto || (isImport && (!importedImage || useRecordedVoice))}
                 className="w-full py-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all text-lg shadow-lg shadow-blue-200 dark:shadow-none mt-4"
             >
                 {isGenerating ? (
@@ -170,8 +444,8 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
                     </>
                 ) : (
                     <>
-                        <Wand2 size={24} />
-                        Generar Pictograma
+                        {isImport ? <Volume2 size={24} /> : <Wand2 size={24} />}
+                        {isImport ? 'Crear voz' : 'Generar Pictograma'}
                     </>
                 )}
             </button>
@@ -180,14 +454,14 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
           {/* Status & Preview */}
           <div className="min-h-[250px] flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900 rounded-2xl border-2 border-dashed border-gray-200 dark:border-gray-700 p-4 relative transition-colors duration-300">
             
-            {state === ProcessingState.IDLE && !generatedImage && (
+            {state === ProcessingState.IDLE && !hasPreview && (
                 <div className="text-center text-gray-400 dark:text-gray-500">
                     <ImageIcon size={64} className="mx-auto mb-4 opacity-50" />
-                    <p>Ingresa una palabra para comenzar</p>
+                    <p>{isImport ? 'Elige una foto o dibujo para comenzar' : 'Ingresa una palabra para comenzar'}</p>
                 </div>
             )}
 
-            {isGenerating && (
+            {isGenerating && !hasPreview && (
                 <div className="text-center text-blue-600 dark:text-blue-400">
                     <Loader2 size={64} className="mx-auto mb-4 animate-spin" />
                     <p className="font-semibold animate-pulse">
@@ -203,20 +477,78 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
                 </div>
             )}
 
-            {generatedImage && !isGenerating && !isUploading && (
+            {hasPreview && !isUploading && (
                 <div className="w-full flex flex-col items-center gap-4 animate-in fade-in zoom-in duration-300">
-                    <div className="relative w-48 h-48 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-2">
-                        <img src={generatedImage} alt="Preview" className="w-full h-full object-contain" />
-                    </div>
+                    {generatedImage && (
+                        <div className="relative w-48 h-48 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-2">
+                            <img src={generatedImage} alt="Preview" className="w-full h-full object-contain" />
+                        </div>
+                    )}
+
+                    {isGenerating && (
+                        <p className="font-semibold text-blue-600 dark:text-blue-400 animate-pulse flex items-center gap-2">
+                            <Loader2 size={18} className="animate-spin" />
+                            {state === ProcessingState.GENERATING_IMAGE ? "Dibujando opciones..." : "Creando voz..."}
+                        </p>
+                    )}
+
+                    {/* Candidate Gallery */}
+                    {!isImport && (
+                        <div className="w-full">
+                            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider text-center">Elige la imagen más clara</p>
+                            <div className="flex justify-center gap-3">
+                                {candidates.map((candidate, index) => (
+                                    <div key={index} className="relative">
+                                        <button
+                                            type="button"
+                                            onClick={() => candidate.image && setSelectedCandidate(index)}
+                                            disabled={candidate.status !== 'ready'}
+                                            className={`w-20 h-20 sm:w-24 sm:h-24 rounded-xl bg-white dark:bg-gray-800 border-4 p-1 flex items-center justify-center transition-all ${selectedCandidate === index && candidate.status === 'ready'
+                                                ? 'border-green-500 shadow-lg scale-105'
+                                                : 'border-gray-200 dark:border-gray-700 hover:border-blue-300'}`}
+                                            aria-label={`Opción ${index + 1}`}
+                                            aria-pressed={selectedCandidate === index}
+                                        >
+                                            {candidate.status === 'loading' && <Loader2 size={28} className="animate-spin text-blue-400" />}
+                                            {candidate.status === 'error' && <AlertCircle size={28} className="text-red-400" />}
+                                            {candidate.status === 'ready' && candidate.image && (
+                                                <img src={candidate.image} alt={`Opción ${index + 1}`} className="w-full h-full object-contain" />
+                                            )}
+                                        </button>
+                                        {selectedCandidate === index && candidate.status === 'ready' && (
+                                            <span className="absolute -top-2 -left-2 bg-green-500 text-white rounded-full p-0.5 shadow-md">
+                                                <Check size={14} strokeWidth={3} />
+                                            </span>
+                                        )}
+                                        {candidate.status !== 'loading' && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleRegenerateCandidate(index)}
+                                                disabled={isUploading || !word.trim()}
+                                                className="absolute -top-2 -right-2 bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-300 rounded-full p-1 shadow-md hover:bg-blue-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                                                aria-label={`Regenerar opción ${index + 1}`}
+                                                title="Regenerar esta opción"
+                                            >
+                                                <RefreshCw size={14} />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     
-                    {generatedAudio && (
+                    {finalAudio && !isGenerating && (
                         <button 
-                            onClick={() => playAudio(generatedAudio)}
+                            onClick={() => playAudio(finalAudio)}
                             className="flex items-center gap-2 px-4 py-2 bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200 rounded-full hover:bg-yellow-200 dark:hover:bg-yellow-800 transition-colors font-semibold"
                         >
-                            <Volume2 size={20} /> {VOICE_OPTIONS.find(v=>v.id===selectedVoice)?.label}
+                            <Volume2 size={20} /> {useRecordedVoice ? 'Mi voz' : getVoiceOption(selectedVoice.voiceId).label}
                         </button>
                     )}
+                    {useRecordedVoice && !recordedAudio && !isGenerating && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Graba tu voz para poder guardar.</p>
+                    )}
                 </div>
             )}
 
@@ -230,7 +562,7 @@ const CreateModal: React.FC<CreateModalProps> = ({ isOpen, onClose, onSave }) =>
         </div>
 
         {/* Footer / Save Actions */}
-        {(generatedImage && generatedAudio && !isProcessing) && (
+        {(generatedImage && finalAudio && !isProcessing) && (
              <div className="p-6 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-700 flex gap-4 transition-colors duration-300">
                 <button 
                     onClick={onClose}
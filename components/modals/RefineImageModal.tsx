@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { X, Wand2, Save, Loader2, ArrowRight, RotateCcw } from 'lucide-react';
+import { generation } from '../../services/providers';
+import { imageUrlToBase64 } from '../../services/storageService';
+import { runGenerationJob, isGenerationCancelled } from '../../services/generationQueue';
+import { Pictogram } from '../../types';
+
+interface RefineImageModalProps {
+  pictogram: Pictogram | null; // Modal is open while a pictogram is set
+  onClose: () => void;
+  onAccept: (pictogram: Pictogram, imageBase64: string) => Promise<void>;
+}
+
+const RefineImageModal: React.FC<RefineImageModalProps> = ({ pictogram, onClose, onAccept }) => {
+  const [instruction, setInstruction] = useState('');
+  const [refinedImage, setRefinedImage] = useState<string | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when opening for another pictogram
+  React.useEffect(() => {
+    setInstruction('');
+    setRefinedImage(null);
+    setIsRefining(false);
+    setIsSaving(false);
+    setError(null);
+  }, [pictogram?.id]);
+
+  if (!pictogram) return null;
+
+  const handleRefine = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim()) return;
+
+    setError(null);
+    setIsRefining(true);
+    try {
+      // Keep refining the preview if there is one, so instructions can be chained
+      const source = refinedImage || await imageUrlToBase64(pictogram.imageUrl);
+      const result = await runGenerationJob(
+        'image',
+        `Refinar: ${pictogram.word}`,
+        signal => generation.image.refine(source, instruction.trim(), pictogram.styleId, signal)
+      );
+      setRefinedImage(result);
+      setInstruction('');
+    } catch (err) {
+      if (isGenerationCancelled(err)) return;
+      console.error("Image refine error:", err);
+      setError("No se pudo modificar la imagen. Intenta con otra instrucción.");
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!refinedImage) return;
+    setIsSaving(true);
+    try {
+      await onAccept(pictogram, refinedImage);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError("Error guardando la imagen. Intenta de nuevo.");
+      setIsSaving(false);
+    }
+  };
+
+  const isBusy = isRefining || isSaving;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in-up transition-colors duration-300 my-8">
+
+        {/* Header */}
+        <div className="bg-purple-500 dark:bg-purple-600 p-6 flex justify-between items-center transition-colors duration-300">
+          <h2 className="text-2xl font-bold text-white">Refinar Imagen</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-white/80 hover:text-white transition-colors">
+            <X size={32} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-center gap-3">
+            <div className="text-center">
+              <div className="w-32 h-32 sm:w-40 sm:h-40 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 p-2">
+                <img src={pictogram.imageUrl} alt={`Actual: ${pictogram.word}`} className="w-full h-full object-contain" />
+              </div>
+              <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">Actual</span>
+            </div>
+            <ArrowRight size={24} className="text-gray-300 dark:text-gray-600 shrink-0" />
+            <div className="text-center">
+              <div className="w-32 h-32 sm:w-40 sm:h-40 bg-white dark:bg-gray-900 rounded-xl border-2 border-dashed border-purple-200 dark:border-purple-800 p-2 flex items-center justify-center">
+                {isRefining ? (
+                  <Loader2 size={40} className="animate-spin text-purple-500" />
+                ) : refinedImage ? (
+                  <img src={refinedImage} alt={`Propuesta: ${pictogram.word}`} className="w-full h-full object-contain" />
+                ) : (
+                  <Wand2 size={40} className="text-purple-200 dark:text-purple-800" />
+                )}
+              </div>
+              <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">Nueva</span>
+            </div>
+          </div>
+
+          <form onSubmit={handleRefine} className="space-y-3">
+            <label className="block text-sm font-semibold text-gray-600 dark:text-gray-300">¿Qué quieres cambiar?</label>
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="ej. Haz el perro café, quita el objeto del fondo"
+              className="w-full p-3 border-2 border-gray-200 dark:border-gray-600 rounded-xl focus:border-purple-500 focus:ring-4 focus:ring-purple-100 dark:focus:ring-purple-900/50 outline-none transition-all bg-white dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+              disabled={isBusy}
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={!instruction.trim() || isBusy}
+                className="flex-1 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 disabled:cursor-not-allowed text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all"
+              >
+                {isRefining ? <Loader2 size={20} className="animate-spin" /> : <Wand2 size={20} />}
+                {refinedImage ? 'Seguir refinando' : 'Refinar'}
+              </button>
+              {refinedImage && (
+                <button
+                  type="button"
+                  onClick={() => setRefinedImage(null)}
+                  disabled={isBusy}
+                  className="px-4 py-3 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-colors"
+                  title="Descartar cambios y empezar de nuevo"
+                >
+                  <RotateCcw size={20} />
+                </button>
+              )}
+            </div>
+          </form>
+
+          {error && (
+            <div className="text-red-500 text-center bg-red-50 dark:bg-red-900/20 p-4 rounded-xl border border-red-100 dark:border-red-900/50">
+              <p>{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer / Save Actions */}
+        {refinedImage && !isRefining && (
+          <div className="p-6 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-700 flex gap-4 transition-colors duration-300">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="flex-1 py-3 text-gray-600 dark:text-gray-300 font-semibold hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={isSaving}
+              className="flex-1 py-3 bg-green-500 hover:bg-green-600 text-white font-bold rounded-xl shadow-lg shadow-green-200 dark:shadow-none flex items-center justify-center gap-2 transition-all"
+            >
+              {isSaving ? <Loader2 size={24} className="animate-spin" /> : <Save size={24} />}
+              Usar esta imagen
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RefineImageModal;
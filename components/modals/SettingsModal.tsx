@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { X, Plus, RotateCcw } from 'lucide-react';
+import StylePicker from '../pickers/StylePicker';
+import VoicePicker from '../pickers/VoicePicker';
+import { usePreferencesContext } from '../../context/PreferencesContext';
+import { getStylePreset } from '../../constants';
+import { resetModel } from '../../services/predictionService';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const { preferences, updatePreferences, activeVoice, setActiveVoice } = usePreferencesContext();
+  const [newChildName, setNewChildName] = useState('');
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const [resetMessage, setResetMessage] = useState<string | null>(null);
+
+  const activeChild = preferences.children.find(c => c.id === preferences.activeChildId) || preferences.children[0];
+
+  const handleAddChild = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newChildName.trim()) return;
+    const child = { id: uuidv4(), name: newChildName.trim() };
+    updatePreferences({ children: [...preferences.children, child], activeChildId: child.id });
+    setNewChildName('');
+  };
+
+  const handleSelectChild = (childId: string) => {
+    updatePreferences({ activeChildId: childId });
+    setIsConfirmingReset(false);
+    setResetMessage(null);
+  };
+
+  const handleResetPredictions = async () => {
+    setIsConfirmingReset(false);
+    try {
+      await resetModel(activeChild.id);
+      setResetMessage('Sugerencias reiniciadas.');
+    } catch (error) {
+      setResetMessage('No se pudieron reiniciar las sugerencias.');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in-up transition-colors duration-300 my-8">
+
+        {/* Header */}
+        <div className="bg-gray-700 dark:bg-gray-900 p-6 flex justify-between items-center transition-colors duration-300">
+          <h2 className="text-2xl font-bold text-white">Ajustes</h2>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={32} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-8">
+          <section>
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 uppercase tracking-wider">Perfil</h3>
+            <p className="text-sm text-gray-400 dark:text-gray-500 mb-3">
+              Las sugerencias de la siguiente palabra se aprenden por separado para cada niño.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {preferences.children.map(child => (
+                <button
+                  key={child.id}
+                  type="button"
+                  onClick={() => handleSelectChild(child.id)}
+                  className={`px-4 py-2 rounded-xl border-2 font-semibold transition-all ${child.id === activeChild.id ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : 'border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-blue-200'}`}
+                >
+                  {child.name}
+                </button>
+              ))}
+            </div>
+            <form onSubmit={handleAddChild} className="flex gap-2 mt-3">
+              <input
+                type="text"
+                value={newChildName}
+                onChange={(e) => setNewChildName(e.target.value)}
+                placeholder="Nombre del niño"
+                className="flex-1 min-w-0 px-3 py-2 border-2 border-gray-200 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 dark:text-white outline-none focus:border-blue-400"
+              />
+              <button
+                type="submit"
+                disabled={!newChildName.trim()}
+                className="p-2 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                aria-label="Agregar perfil"
+              >
+                <Plus size={20} />
+              </button>
+            </form>
+            <div className="mt-4 flex items-center gap-3">
+              {isConfirmingReset ? (
+                <>
+                  <span className="text-sm text-gray-600 dark:text-gray-300">¿Olvidar lo aprendido para {activeChild.name}?</span>
+                  <button type="button" onClick={handleResetPredictions} className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-sm font-semibold rounded-lg">Sí, reiniciar</button>
+                  <button type="button" onClick={() => setIsConfirmingReset(false)} className="px-3 py-1.5 text-sm text-gray-500 dark:text-gray-400 hover:underline">Cancelar</button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => { setIsConfirmingReset(true); setResetMessage(null); }}
+                  className="inline-flex items-center gap-1.5 text-sm font-semibold text-red-500 hover:underline"
+                >
+                  <RotateCcw size={14} /> Reiniciar sugerencias
+                </button>
+              )}
+              {resetMessage && <span className="text-sm text-gray-500 dark:text-gray-400">{resetMessage}</span>}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 uppercase tracking-wider">Estilo de imagen por defecto</h3>
+            <p className="text-sm text-gray-400 dark:text-gray-500 mb-3">
+              {getStylePreset(preferences.defaultStyleId).description}
+            </p>
+            <StylePicker
+              value={preferences.defaultStyleId}
+              onChange={(defaultStyleId) => updatePreferences({ defaultStyleId })}
+            />
+          </section>
+
+          <section>
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 uppercase tracking-wider">Voz de {activeChild.name}</h3>
+            <p className="text-sm text-gray-400 dark:text-gray-500 mb-3">
+              Se usa para los pictogramas nuevos y al leer la frase completa en modo natural.
+            </p>
+            <VoicePicker value={activeVoice} onChange={setActiveVoice} />
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={preferences.speakNaturally}
+                onChange={(e) => updatePreferences({ speakNaturally: e.target.checked })}
+                className="w-4 h-4 accent-blue-500"
+              />
+              Hablar natural (una frase en vez de palabra por palabra)
+            </label>
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={preferences.completeGrammar}
+                onChange={(e) => updatePreferences({ completeGrammar: e.target.checked })}
+                className="w-4 h-4 accent-blue-500"
+              />
+              Completar la gramática ("yo querer agua" se dice "Yo quiero agua")
+            </label>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 uppercase tracking-wider">Reproducción</h3>
+            <label className="block mt-2 text-sm text-gray-600 dark:text-gray-300">
+              Volumen: {Math.round(preferences.volume * 100)}%
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={preferences.volume}
+                onChange={(e) => updatePreferences({ volume: Number(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </label>
+            <label className="block mt-2 text-sm text-gray-600 dark:text-gray-300">
+              Velocidad: {preferences.playbackRate.toFixed(2)}×
+              <input
+                type="range"
+                min={0.75}
+                max={1.25}
+                step={0.05}
+                value={preferences.playbackRate}
+                onChange={(e) => updatePreferences({ playbackRate: Number(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </label>
+            <label className="block mt-2 text-sm text-gray-600 dark:text-gray-300">
+              Pausa entre palabras: {(preferences.wordPauseMs / 1000).toFixed(1)} s
+              <input
+                type="range"
+                min={0}
+                max={2000}
+                step={100}
+                value={preferences.wordPauseMs}
+                onChange={(e) => updatePreferences({ wordPauseMs: Number(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </label>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { VocabularyWord } from '../../types';
+import VocabularyPackPanel from '../packs/VocabularyPackPanel';
+
+interface VocabularyPackModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (theme: string, words: VocabularyWord[]) => Promise<boolean>; // Resolves true when the board was created
+  isGenerating: boolean;
+}
+
+/**
+ * The vocabulary pack flow once the grid already has pictograms: one more themed board.
+ */
+const VocabularyPackModal: React.FC<VocabularyPackModalProps> = ({ isOpen, onClose, onCreate, isGenerating }) => {
+  if (!isOpen) return null;
+
+  const handleCreate = async (theme: string, words: VocabularyWord[]) => {
+    if (await onCreate(theme, words)) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in-up transition-colors duration-300 my-8">
+
+        {/* Header */}
+        <div className="bg-purple-500 dark:bg-purple-600 p-6 flex justify-between items-center transition-colors duration-300">
+          <h2 className="text-2xl font-bold text-white">Tablero por tema</h2>
+          <button onClick={onClose} disabled={isGenerating} className="text-white/80 hover:text-white transition-colors disabled:opacity-50">
+            <X size={32} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6">
+          <p className="text-gray-500 dark:text-gray-400 mb-4">Escribe un momento del día y te proponemos el vocabulario para un tablero nuevo.</p>
+          <VocabularyPackPanel onCreate={handleCreate} isGenerating={isGenerating} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyPackModal;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Sparkles, Loader2, Plus, X, Wand2, ArrowLeft } from 'lucide-react';
+import { generation } from '../../services/providers';
+import { runGenerationJob, isGenerationCancelled } from '../../services/generationQueue';
+import { VocabularyWord, PictogramCategory } from '../../types';
+import { CATEGORY_OPTIONS, VOCABULARY_PACK_THEMES, getCategoryOption } from '../../constants';
+
+interface VocabularyPackPanelProps {
+  onCreate: (theme: string, words: VocabularyWord[]) => Promise<void>;
+  isGenerating: boolean;
+}
+
+/**
+ * Starter experience: type a theme, let the generation provider propose a core vocabulary,
+ * edit the list and turn it into a new board.
+ */
+const VocabularyPackPanel: React.FC<VocabularyPackPanelProps> = ({ onCreate, isGenerating }) => {
+  const [theme, setTheme] = useState('');
+  const [words, setWords] = useState<VocabularyWord[] | null>(null);
+  const [newWord, setNewWord] = useState('');
+  const [isProposing, setIsProposing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePropose = async (selectedTheme: string) => {
+    if (!selectedTheme.trim()) return;
+    setTheme(selectedTheme);
+    setError(null);
+    setIsProposing(true);
+    try {
+      const proposed = await runGenerationJob(
+        'text',
+        `Vocabulario: ${selectedTheme.trim()}`,
+        signal => generation.text.proposeVocabulary(selectedTheme.trim(), undefined, signal)
+      );
+      if (proposed.length === 0) {
+        setError("No se encontraron palabras para ese tema. Prueba con otro.");
+        return;
+      }
+      setWords(proposed);
+    } catch (err) {
+      if (isGenerationCancelled(err)) return;
+      setError(!navigator.onLine
+        ? "Se necesita conexión para proponer vocabulario."
+        : "No se pudo proponer vocabulario. Intenta de nuevo.");
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const updateWord = (index: number, updates: Partial<VocabularyWord>) => {
+    setWords(prev => prev && prev.map((w, i) => i === index ? { ...w, ...updates } : w));
+  };
+
+  const handleAddWord = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWord.trim()) return;
+    setWords(prev => [...(prev || []), { word: newWord.trim() }]);
+    setNewWord('');
+  };
+
+  const approvedWords = (words || []).filter(w => w.word.trim());
+
+  const handleCreate = async () => {
+    if (approvedWords.length === 0) return;
+    setError(null);
+    try {
+      await onCreate(theme.trim(), approvedWords.map(w => ({ ...w, word: w.word.trim() })));
+      setWords(null);
+      setTheme('');
+    } catch (err) {
+      setError("No se pudo crear el tablero. Intenta de nuevo.");
+    }
+  };
+
+  // Step 1: pick a theme
+  if (!words) {
+    return (
+      <div className="max-w-lg mx-auto">
+        <form onSubmit={(e) => { e.preventDefault(); handlePropose(theme); }} className="flex gap-2">
+          <input
+            type="text"
+            value={theme}
+            onChange={(e) => setTheme(e.target.value)}
+            placeholder="ej. Rutina de baño, Cumpleaños"
+            disabled={isProposing}
+            className="flex-1 p-3 border-2 border-purple-100 dark:border-gray-700 rounded-xl focus:border-purple-400 focus:ring-4 focus:ring-purple-100 dark:focus:ring-purple-900/50 outline-none transition-all bg-white dark:bg-gray-800 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={!theme.trim() || isProposing}
+            className="inline-flex items-center gap-2 px-5 py-3 bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300 rounded-xl font-semibold hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors disabled:opacity-50"
+          >
+            {isProposing ? <Loader2 size={20} className="animate-spin" /> : <Sparkles size={20} />}
+            <span>Proponer</span>
+          </button>
+        </form>
+        <div className="flex flex-wrap justify-center gap-2 mt-4">
+          {VOCABULARY_PACK_THEMES.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => handlePropose(suggestion)}
+              disabled={isProposing}
+              className="px-3 py-1.5 rounded-full text-sm bg-white dark:bg-gray-800 border border-purple-100 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-purple-300 disabled:opacity-50 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+      </div>
+    );
+  }
+
+  // Step 2: review and edit the proposed list
+  return (
+    <div className="max-w-lg mx-auto text-left bg-white dark:bg-gray-800 rounded-2xl border-2 border-purple-100 dark:border-gray-700 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-gray-700 dark:text-gray-200">"{theme}"</h4>
+        <button
+          type="button"
+          onClick={() => setWords(null)}
+          disabled={isGenerating}
+          className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1 hover:underline disabled:opacity-50"
+        >
+          <ArrowLeft size={14} /> Otro tema
+        </button>
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {words.map((item, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getCategoryOption(item.category).dotClass}`}></span>
+            <input
+              type="text"
+              value={item.word}
+              onChange={(e) => updateWord(index, { word: e.target.value })}
+              disabled={isGenerating}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 dark:text-white"
+            />
+            <select
+              value={item.category || ''}
+              onChange={(e) => updateWord(index, { category: (e.target.value || undefined) as PictogramCategory | undefined })}
+              disabled={isGenerating}
+              className="text-sm px-1 py-1 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">Sin categoría</option>
+              {CATEGORY_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setWords(prev => prev && prev.filter((_, i) => i !== index))}
+              disabled={isGenerating}
+              className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full disabled:opacity-50"
+              aria-label={`Quitar ${item.word}`}
+            >
+              <X size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAddWord} className="flex gap-2 mt-3">
+        <input
+          type="text"
+          value={newWord}
+          onChange={(e) => setNewWord(e.target.value)}
+          placeholder="Agregar palabra"
+          disabled={isGenerating}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={!newWord.trim() || isGenerating}
+          className="p-2 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          aria-label="Agregar palabra"
+        >
+          <Plus size={16} />
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={approvedWords.length === 0 || isGenerating}
+        className="w-full mt-4 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 disabled:cursor-not-allowed text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all"
+      >
+        {isGenerating ? (
+          <>
+            <Loader2 size={20} className="animate-spin" />
+            Generando {approvedWords.length} pictogramas...
+          </>
+        ) : (
+          <>
+            <Wand2 size={20} />
+            Crear tablero con {approvedWords.length} pictogramas
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default VocabularyPackPanel;
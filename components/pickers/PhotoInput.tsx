@@ -0,0 +1,39 @@
+import React, { useRef } from 'react';
+import { Upload, Camera } from 'lucide-react';
+
+interface PhotoInputProps {
+  onSelect: (file: File) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Two buttons: pick a file from the gallery, or open the rear camera directly
+ * (the `capture` attribute is ignored on desktop, where both act as a file picker).
+ */
+const PhotoInput: React.FC<PhotoInputProps> = ({ onSelect, disabled = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) onSelect(file);
+  };
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl font-semibold transition-colors disabled:opacity-50 bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600';
+
+  return (
+    <div className="flex gap-2">
+      <button type="button" onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClass}>
+        <Upload size={18} /> Subir foto
+      </button>
+      <button type="button" onClick={() => cameraInputRef.current?.click()} disabled={disabled} className={buttonClass}>
+        <Camera size={18} /> Tomar foto
+      </button>
+      <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleChange} />
+      <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleChange} />
+    </div>
+  );
+};
+
+export default PhotoInput;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { STYLE_PRESETS } from '../../constants';
+
+interface StylePickerProps {
+  value: string;
+  onChange: (styleId: string) => void;
+  disabled?: boolean;
+}
+
+const StylePicker: React.FC<StylePickerProps> = ({ value, onChange, disabled = false }) => {
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+      {STYLE_PRESETS.map(style => (
+        <button
+          key={style.id}
+          type="button"
+          onClick={() => onChange(style.id)}
+          disabled={disabled}
+          title={style.description}
+          aria-pressed={value === style.id}
+          className={`flex flex-col items-center gap-1 p-2 rounded-xl border-2 transition-all text-center disabled:opacity-50 ${value === style.id
+            ? 'bg-blue-100 dark:bg-blue-900 border-blue-400 dark:border-blue-600 text-blue-700 dark:text-blue-200 font-bold shadow-sm'
+            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+        >
+          <span className="text-2xl leading-none" aria-hidden="true">{style.preview}</span>
+          <span className="text-[11px] leading-tight">{style.name}</span>
+          {style.aspectRatio !== '1:1' && (
+            <span className="text-[9px] text-gray-400 dark:text-gray-500">{style.aspectRatio}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StylePicker;
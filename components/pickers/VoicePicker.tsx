@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Loader2, Volume2 } from 'lucide-react';
+import { VoiceSettings } from '../../types';
+import { VOICE_OPTIONS, ACCENT_OPTIONS, VOICE_STYLE_OPTIONS, SPEAKING_RATE_OPTIONS, VoiceVariant } from '../../constants';
+import { getPhraseAudio } from '../../services/phraseAudioService';
+import { playAudio } from '../../services/audioPlayer';
+
+interface VoicePickerProps {
+  value: VoiceSettings;
+  onChange: (voice: VoiceSettings) => void;
+  disabled?: boolean;
+}
+
+interface VariantRowProps {
+  label: string;
+  options: VoiceVariant[];
+  value: string;
+  onChange: (id: string) => void;
+  disabled: boolean;
+}
+
+const VariantRow: React.FC<VariantRowProps> = ({ label, options, value, onChange, disabled }) => (
+  <div>
+    <span className="block text-[11px] font-semibold text-gray-500 dark:text-gray-400 mb-1">{label}</span>
+    <div className="flex flex-wrap gap-1.5">
+      {options.map(option => (
+        <button
+          key={option.id}
+          type="button"
+          onClick={() => onChange(option.id)}
+          disabled={disabled}
+          aria-pressed={value === option.id}
+          className={`px-2.5 py-1 text-xs rounded-lg border transition-all disabled:opacity-50 ${value === option.id
+            ? 'bg-indigo-100 dark:bg-indigo-900 border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-200 font-bold'
+            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ value, onChange, disabled = false }) => {
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+
+  // Previews go through the phrase cache, so each combination is only synthesized once
+  const handlePreview = async (voiceId: string, label: string) => {
+    if (previewingId) return;
+    setPreviewingId(voiceId);
+    try {
+      const audio = await getPhraseAudio(`Hola, soy ${label}. ¿Jugamos?`, { ...value, voiceId });
+      await playAudio(audio);
+    } catch (error) {
+      console.error('[Voice] Preview failed:', error);
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {VOICE_OPTIONS.map(voice => (
+          <div
+            key={voice.id}
+            className={`flex items-center rounded-xl border-2 transition-all ${value.voiceId === voice.id
+              ? 'bg-indigo-100 dark:bg-indigo-900 border-indigo-400 dark:border-indigo-600'
+              : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600'}`}
+          >
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, voiceId: voice.id })}
+              disabled={disabled}
+              aria-pressed={value.voiceId === voice.id}
+              className="flex-1 min-w-0 px-2 py-1.5 text-left disabled:opacity-50"
+            >
+              <span className={`block text-sm truncate ${value.voiceId === voice.id ? 'font-bold text-indigo-700 dark:text-indigo-200' : 'text-gray-700 dark:text-gray-200'}`}>
+                {voice.label}
+              </span>
+              <span className="block text-[10px] leading-tight text-gray-400 dark:text-gray-500 truncate">{voice.description}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => handlePreview(voice.id, voice.label)}
+              disabled={!!previewingId}
+              title={`Escuchar a ${voice.label}`}
+              aria-label={`Escuchar a ${voice.label}`}
+              className="p-1.5 mr-1 rounded-lg text-indigo-500 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-800 disabled:opacity-50"
+            >
+              {previewingId === voice.id ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <VariantRow label="Acento" options={ACCENT_OPTIONS} value={value.accent} onChange={accent => onChange({ ...value, accent })} disabled={disabled} />
+      <VariantRow label="Estilo" options={VOICE_STYLE_OPTIONS} value={value.style} onChange={style => onChange({ ...value, style })} disabled={disabled} />
+      <VariantRow label="Velocidad" options={SPEAKING_RATE_OPTIONS} value={value.rate} onChange={rate => onChange({ ...value, rate })} disabled={disabled} />
+    </div>
+  );
+};
+
+export default VoicePicker;
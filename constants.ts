@@ -1,13 +1,186 @@
+import { PictogramCategory, VoiceSettings } from "./types";
 
 export const APP_TITLE = "PictoLeo AI";
 export const GEMINI_IMAGE_MODEL = "gemini-2.5-flash-image";
 export const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+export const GEMINI_TEXT_MODEL = "gemini-2.5-flash";
+
+// How many drawings to offer per word in the create dialog
+export const IMAGE_CANDIDATE_COUNT = 3;
+
+// Generation queue: Gemini calls in flight at once, and retries on 429/5xx (exponential backoff)
+export const GENERATION_CONCURRENCY = 3;
+export const GENERATION_MAX_ATTEMPTS = 4;
+export const GENERATION_BACKOFF_BASE_MS = 1000;
+
+// Spoken sentences: synthesized phrases kept offline (least recently used are evicted first)
+export const PHRASE_CACHE_MAX_ENTRIES = 200;
+
+// Decoded card audio kept in memory, and at most how many on-screen cards are decoded ahead of a tap
+export const DECODED_AUDIO_CACHE_MAX_ENTRIES = 100;
+export const AUDIO_PRELOAD_LIMIT = 48;
+
+// Sentence history: spoken sentences remembered besides the pinned ones
+export const PHRASE_HISTORY_LIMIT = 20;
+
+// Next-pictogram suggestions shown above the grid
+export const PREDICTION_SUGGESTION_COUNT = 5;
+
+// Bulk generation: the most rows accepted per run
+export const BULK_MAX_ROWS = 50;
+
+// Themed vocabulary packs: how many words to ask for, and themes offered as a starting point
+export const VOCABULARY_PACK_SIZE = 12;
+export const VOCABULARY_PACK_THEMES = ['Rutina de baño', 'Cumpleaños', 'Desayuno', 'Escuela', 'Parque', 'Hora de dormir'];
 
 // A system prompt to ensure the image style is consistent and suitable for autistic children (PECS style)
 export const IMAGE_PROMPT_SUFFIX = "Estilo pictograma plano, minimalista, educativo, líneas gruesas negras, colores sólidos y vivos, fondo blanco puro, sin texto, estilo PECS (Picture Exchange Communication System).";
 
+// Image style presets. Every child responds to different visuals, so the prompt
+// fragment and aspect ratio are picked per pictogram (and remembered for regenerations).
+export type ImageAspectRatio = '1:1' | '4:3' | '3:4';
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  promptFragment: string;
+  aspectRatio: ImageAspectRatio;
+  preview: string; // Emoji shown on the picker tile
+  description: string;
+}
+
+export const DEFAULT_STYLE_ID = 'pecs';
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'pecs', name: 'Pictograma PECS', promptFragment: IMAGE_PROMPT_SUFFIX, aspectRatio: '1:1', preview: '🎨', description: 'Plano, colores vivos, líneas gruesas' },
+  { id: 'photo', name: 'Fotorealista', promptFragment: "Fotografía realista de un solo objeto centrado, iluminación natural suave, fondo blanco liso, sin objetos adicionales, sin texto.", aspectRatio: '1:1', preview: '📷', description: 'Parece una foto real' },
+  { id: 'lineart', name: 'Alto contraste', promptFragment: "Dibujo de líneas negras muy gruesas sobre fondo blanco puro, alto contraste, sin colores, sin sombras ni texturas, sin texto.", aspectRatio: '1:1', preview: '✏️', description: 'Solo líneas negras, sin color' },
+  { id: 'pastel', name: 'Colores suaves', promptFragment: "Ilustración plana con paleta pastel suave y poco saturada, contornos redondeados, sin detalles que distraigan, fondo blanco puro, sin texto.", aspectRatio: '1:1', preview: '🌸', description: 'Paleta tranquila para sensibilidad visual' },
+  { id: 'scene', name: 'Escena', promptFragment: "Escena ilustrada simple y clara, estilo plano, pocos elementos, colores sólidos, fondo claro, sin texto.", aspectRatio: '4:3', preview: '🏞️', description: 'Acciones y lugares en contexto' }
+];
+
+/**
+ * Resolves a style preset; unknown or missing ids use the default PECS style.
+ */
+export const getStylePreset = (styleId?: string): StylePreset => {
+  return STYLE_PRESETS.find(s => s.id === styleId) || STYLE_PRESETS[0];
+};
+
+// Voice catalogue: Gemini prebuilt voices, plus accent, style and speaking rate as prompt
+// directions. Each child has a default (see preferences); pictograms remember the one used.
+export interface VoiceOption {
+  id: string; // Prebuilt voice name
+  label: string;
+  gender: 'female' | 'male';
+  description: string;
+}
+
+export interface VoiceVariant {
+  id: string;
+  label: string;
+  promptFragment: string; // Direction added to the speech prompt (empty = none)
+}
+
+export const VOICE_OPTIONS: VoiceOption[] = [
+  { id: 'Zephyr', label: 'Zephyr', gender: 'female', description: 'Mujer, clara' },
+  { id: 'Puck', label: 'Puck', gender: 'male', description: 'Hombre, animado' },
+  { id: 'Kore', label: 'Kore', gender: 'female', description: 'Mujer, firme' },
+  { id: 'Leda', label: 'Leda', gender: 'female', description: 'Mujer, juvenil' },
+  { id: 'Sulafat', label: 'Sulafat', gender: 'female', description: 'Mujer, cálida' },
+  { id: 'Aoede', label: 'Aoede', gender: 'female', description: 'Mujer, ligera' },
+  { id: 'Charon', label: 'Charon', gender: 'male', description: 'Hombre, pausado' },
+  { id: 'Achird', label: 'Achird', gender: 'male', description: 'Hombre, amable' },
+  { id: 'Orus', label: 'Orus', gender: 'male', description: 'Hombre, firme' },
+  { id: 'Fenrir', label: 'Fenrir', gender: 'male', description: 'Hombre, entusiasta' }
+];
+
+export const ACCENT_OPTIONS: VoiceVariant[] = [
+  { id: 'latam', label: 'Latino neutro', promptFragment: 'en español latinoamericano' },
+  { id: 'mx', label: 'México', promptFragment: 'en español de México, con acento mexicano' },
+  { id: 'es', label: 'España', promptFragment: 'en español de España, con acento castellano' },
+  { id: 'rioplatense', label: 'Rioplatense', promptFragment: 'en español rioplatense, con acento argentino' }
+];
+
+export const VOICE_STYLE_OPTIONS: VoiceVariant[] = [
+  { id: 'neutral', label: 'Natural', promptFragment: '' },
+  { id: 'calm', label: 'Tranquila', promptFragment: 'con voz tranquila y suave' },
+  { id: 'cheerful', label: 'Alegre', promptFragment: 'con voz alegre y animada' }
+];
+
+export const SPEAKING_RATE_OPTIONS: VoiceVariant[] = [
+  { id: 'slow', label: 'Despacio', promptFragment: 'despacio, vocalizando bien' },
+  { id: 'normal', label: 'Normal', promptFragment: '' },
+  { id: 'fast', label: 'Rápido', promptFragment: 'a ritmo ágil' }
+];
+
+export const DEFAULT_VOICE: VoiceSettings = { voiceId: 'Zephyr', accent: 'latam', style: 'neutral', rate: 'normal' };
+
+/**
+ * Resolves a voice option; unknown ids use the first voice.
+ */
+export const getVoiceOption = (voiceId?: string): VoiceOption => {
+  return VOICE_OPTIONS.find(v => v.id === voiceId) || VOICE_OPTIONS[0];
+};
+
+/**
+ * Resolves an accent, style or rate; unknown ids add no direction (or use the first accent).
+ */
+export const getVoiceVariant = (options: VoiceVariant[], id?: string): VoiceVariant => {
+  return options.find(o => o.id === id) || options.find(o => !o.promptFragment) || options[0];
+};
+
+// Cache and request key for a voice: the same text in the same voice always sounds the same
+export const voiceKey = (voice: VoiceSettings): string =>
+  [voice.voiceId, voice.accent, voice.style, voice.rate].join(':');
+
+// Generation provider: "gemini", "stub" (offline placeholders) or "proxy" (server-side gateway, key stays off the client).
+// Without an API key we default to the stub.
+export const GENERATION_PROVIDER = process.env.GENERATION_PROVIDER || (process.env.API_KEY ? "gemini" : "stub");
+export const GENERATION_PROXY_URL = process.env.GENERATION_PROXY_URL || "http://localhost:8787";
+
+// Storage backend: "http" (API Gateway + S3) or "local" (IndexedDB only, no AWS required)
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "http";
+
 // API Gateway Endpoint
 export const API_ENDPOINT = "https://rmxx2fv016.execute-api.us-east-1.amazonaws.com/dev";
 
 // Mock S3 Bucket URL fallback (used if upload fails or for testing)
 export const MOCK_S3_BUCKET_URL = "https://s3.amazonaws.com/my-pictogram-bucket/";
+
+// Fitzgerald Key color coding (modified) used to group pictograms by part of speech.
+// Tailwind classes are written out in full so the CDN build picks them up.
+export interface CategoryOption {
+  id: PictogramCategory | typeof UNCATEGORIZED_ID;
+  label: string;
+  borderClass: string; // Card border
+  chipClass: string;   // Filter chip / picker background + text
+  dotClass: string;    // Small color swatch
+}
+
+export const UNCATEGORIZED_ID = 'uncategorized';
+
+export const CATEGORY_OPTIONS: CategoryOption[] = [
+  { id: 'people', label: 'Personas', borderClass: 'border-yellow-400 dark:border-yellow-500', chipClass: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200', dotClass: 'bg-yellow-400' },
+  { id: 'actions', label: 'Acciones', borderClass: 'border-green-400 dark:border-green-500', chipClass: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200', dotClass: 'bg-green-500' },
+  { id: 'feelings', label: 'Sentimientos', borderClass: 'border-blue-400 dark:border-blue-500', chipClass: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200', dotClass: 'bg-blue-500' },
+  { id: 'food', label: 'Comida', borderClass: 'border-orange-400 dark:border-orange-500', chipClass: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200', dotClass: 'bg-orange-500' },
+  { id: 'objects', label: 'Objetos', borderClass: 'border-amber-600 dark:border-amber-500', chipClass: 'bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200', dotClass: 'bg-amber-600' },
+  { id: 'places', label: 'Lugares', borderClass: 'border-purple-400 dark:border-purple-500', chipClass: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200', dotClass: 'bg-purple-500' },
+  { id: 'social', label: 'Social', borderClass: 'border-pink-400 dark:border-pink-500', chipClass: 'bg-pink-100 text-pink-800 dark:bg-pink-900/40 dark:text-pink-200', dotClass: 'bg-pink-500' }
+];
+
+export const UNCATEGORIZED_OPTION: CategoryOption = {
+  id: UNCATEGORIZED_ID,
+  label: 'Sin categoría',
+  borderClass: 'border-blue-100 dark:border-gray-700',
+  chipClass: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  dotClass: 'bg-gray-300'
+};
+
+/**
+ * Resolves the display option for a pictogram's category.
+ * Records created before categories existed fall back to "Sin categoría".
+ */
+export const getCategoryOption = (category?: string | null): CategoryOption => {
+  return CATEGORY_OPTIONS.find(c => c.id === category) || UNCATEGORIZED_OPTION;
+};
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, ReactNode } from 'react';
-import { usePictograms } from '../hooks/usePictograms';
-import { Pictogram } from '../types';
+import { usePictograms, PictogramEdits } from '../hooks/usePictograms';
+import { useBoards } from '../hooks/useBoards';
+import { Pictogram, Board, VocabularyWord } from '../types';
+import { OutboxConflict } from '../services/outboxService';
 
 interface PictogramContextType {
   pictograms: Pictogram[];
@@ -10,18 +12,50 @@ interface PictogramContextType {
   loadPictograms: () => Promise<void>;
   addPictogram: (pictogram: Pictogram) => Promise<Pictogram>;
   removePictogram: (id: string) => Promise<void>;
-  editPictogram: (id: string, newWord: string) => Promise<void>;
-  reorderPictograms: (newOrder: Pictogram[]) => void;
-  generateExamples: () => Promise<number>;
+  editPictogram: (id: string, edits: PictogramEdits) => Promise<void>;
+  updatePictogramImage: (id: string, imageBase64: string) => Promise<void>;
+  reorderPictograms: (newOrder: Pictogram[]) => Promise<void>;
+  generateExamples: (words: VocabularyWord[]) => Promise<Pictogram[] | null>; // null: already generating
+
+  // Offline sync
+  pendingSyncIds: string[];
+  syncConflicts: OutboxConflict[];
+  dismissSyncConflict: (seq: number) => Promise<void>;
+
+  // Boards
+  boards: Board[];
+  boardsLoading: boolean;
+  boardsError: string | null;
+  loadBoards: () => Promise<void>;
+  activeBoard: Board | null;
+  boardPictograms: Pictogram[]; // Pictograms of the active board in board order (all of them if none)
+  setActiveBoard: (id: string | null) => void;
+  addBoard: (name: string, pictogramIds?: string[]) => Promise<Board>;
+  renameBoard: (id: string, name: string) => Promise<void>;
+  removeBoard: (id: string) => Promise<void>;
+  addPictogramToBoard: (boardId: string, pictogramId: string) => Promise<void>;
+  addPictogramsToBoard: (boardId: string, pictogramIds: string[]) => Promise<void>;
+  removePictogramFromBoard: (boardId: string, pictogramId: string) => Promise<void>;
+  reorderBoard: (boardId: string, pictogramIds: string[]) => Promise<void>;
 }
 
 const PictogramContext = createContext<PictogramContextType | undefined>(undefined);
 
 export const PictogramProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const pictogramData = usePictograms();
+  const { boards, activeBoardId, replacePictogramId, ...boardData } = useBoards();
+  const pictogramData = usePictograms({ onPictogramIdChanged: replacePictogramId });
+
+  const activeBoard = boards.find(b => b.id === activeBoardId) || null;
+
+  // Boards only hold references: skip ids whose pictogram was deleted
+  const boardPictograms = activeBoard
+    ? activeBoard.pictogramIds
+        .map(id => pictogramData.pictograms.find(p => p.id === id))
+        .filter((p): p is Pictogram => p !== undefined)
+    : pictogramData.pictograms;
 
   return (
-    <PictogramContext.Provider value={pictogramData}>
+    <PictogramContext.Provider value={{ ...pictogramData, ...boardData, boards, activeBoard, boardPictograms }}>
       {children}
     </PictogramContext.Provider>
   );
@@ -33,4 +67,4 @@ export const usePictogramContext = () => {
     throw new Error('usePictogramContext must be used within a PictogramProvider');
   }
   return context;
-};
\ No newline at end of file
+};
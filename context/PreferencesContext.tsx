@@ -0,0 +1,56 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { UserPreferences, loadPreferences, savePreferences, getActiveVoice } from '../services/preferencesService';
+import { VoiceSettings } from '../types';
+import { configurePlayback } from '../services/audioPlayer';
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  updatePreferences: (updates: Partial<UserPreferences>) => void;
+  activeVoice: VoiceSettings; // The active child's default voice
+  setActiveVoice: (voice: VoiceSettings) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export const PreferencesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [preferences, setPreferences] = useState<UserPreferences>(loadPreferences);
+  const { volume, playbackRate, wordPauseMs } = preferences;
+
+  // The player is module-level; keep it in step with the saved settings
+  useEffect(() => {
+    configurePlayback({ volume, rate: playbackRate, wordPauseMs });
+  }, [volume, playbackRate, wordPauseMs]);
+
+  const updatePreferences = (updates: Partial<UserPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...updates };
+      savePreferences(next);
+      return next;
+    });
+  };
+
+  const setActiveVoice = (voice: VoiceSettings) => {
+    setPreferences(prev => {
+      const next = {
+        ...prev,
+        children: prev.children.map(child => child.id === prev.activeChildId ? { ...child, voice } : child)
+      };
+      savePreferences(next);
+      return next;
+    });
+  };
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, updatePreferences, activeVoice: getActiveVoice(preferences), setActiveVoice }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferencesContext = () => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferencesContext must be used within a PreferencesProvider');
+  }
+  return context;
+};
@@ -1,5 +1,11 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Pictogram } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Pictogram, SavedPhrase } from '../types';
+import { recordSelection } from '../services/predictionService';
+import { useSavedPhrases } from '../hooks/useSavedPhrases';
+import { usePreferencesContext } from './PreferencesContext';
+import { usePictogramContext } from './PictogramContext';
+
+const SENTENCE_STORAGE_KEY = 'sentence';
 
 interface ToastMessage {
   message: string;
@@ -18,6 +24,18 @@ interface UIContextType {
   // Modal
   isModalOpen: boolean;
   setModalOpen: (isOpen: boolean) => void;
+
+  // Bulk generation
+  isBulkModalOpen: boolean;
+  setBulkModalOpen: (isOpen: boolean) => void;
+
+  // Vocabulary packs
+  isPackModalOpen: boolean;
+  setPackModalOpen: (isOpen: boolean) => void;
+
+  // Settings
+  isSettingsOpen: boolean;
+  setSettingsOpen: (isOpen: boolean) => void;
   
   // Toast
   toast: ToastMessage | null;
@@ -29,6 +47,15 @@ interface UIContextType {
   addToSentence: (pictogram: Pictogram) => void;
   removeFromSentence: (index: number) => void;
   clearSentence: () => void;
+
+  // Saved phrases
+  pinnedPhrases: SavedPhrase[];
+  phraseHistory: SavedPhrase[];
+  loadPhrase: (phrase: SavedPhrase) => Pictogram[]; // Replaces the strip; returns what could be resolved
+  recordSpokenPhrase: (pictograms: Pictogram[], text: string) => Promise<void>;
+  pinPhrase: (pictograms: Pictogram[], text: string) => Promise<void>;
+  setPhrasePinned: (id: string, pinned: boolean) => Promise<void>;
+  deletePhrase: (id: string) => Promise<void>;
 }
 
 const UIContext = createContext<UIContextType | undefined>(undefined);
@@ -62,6 +89,15 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // Modal
   const [isModalOpen, setModalOpen] = useState(false);
 
+  // Bulk generation
+  const [isBulkModalOpen, setBulkModalOpen] = useState(false);
+
+  // Vocabulary packs
+  const [isPackModalOpen, setPackModalOpen] = useState(false);
+
+  // Settings
+  const [isSettingsOpen, setSettingsOpen] = useState(false);
+
   // Toast
   const [toast, setToast] = useState<ToastMessage | null>(null);
   const showToast = (message: string, type: 'success' | 'error') => {
@@ -70,18 +106,61 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const hideToast = () => setToast(null);
 
   // Sentence Strip
+  const { preferences } = usePreferencesContext();
   const [sentence, setSentence] = useState<Pictogram[]>([]);
-  const addToSentence = (pictogram: Pictogram) => setSentence(prev => [...prev, pictogram]);
+  const addToSentence = (pictogram: Pictogram) => {
+    // Every selection teaches the active child's prediction model what follows what
+    recordSelection(preferences.activeChildId, sentence.map(p => p.id), pictogram.id);
+    setSentence(prev => [...prev, pictogram]);
+  };
   const removeFromSentence = (index: number) => setSentence(prev => prev.filter((_, i) => i !== index));
   const clearSentence = () => setSentence([]);
 
+  // Keep the strip across reloads: ids are stored, pictograms resolved once the library loads
+  const { pictograms } = usePictogramContext();
+  const isSentenceRestored = useRef(false);
+
+  const resolvePictograms = (ids: string[]): Pictogram[] =>
+    ids
+      .map(id => pictograms.find(p => p.id === id))
+      .filter((p): p is Pictogram => p !== undefined);
+
+  useEffect(() => {
+    if (isSentenceRestored.current || pictograms.length === 0) return;
+    isSentenceRestored.current = true;
+    try {
+      const storedIds: string[] = JSON.parse(localStorage.getItem(SENTENCE_STORAGE_KEY) || '[]');
+      setSentence(prev => prev.length > 0 ? prev : resolvePictograms(storedIds));
+    } catch (error) {
+      console.error('Error restoring sentence:', error);
+    }
+  }, [pictograms]);
+
+  useEffect(() => {
+    if (!isSentenceRestored.current) return;
+    localStorage.setItem(SENTENCE_STORAGE_KEY, JSON.stringify(sentence.map(p => p.id)));
+  }, [sentence]);
+
+  // Saved phrases
+  const savedPhrases = useSavedPhrases();
+
+  const loadPhrase = (phrase: SavedPhrase): Pictogram[] => {
+    const loaded = resolvePictograms(phrase.pictogramIds);
+    setSentence(loaded);
+    return loaded;
+  };
+
   return (
     <UIContext.Provider value={{
       darkMode, toggleDarkMode,
       isEditMode, toggleEditMode,
       isModalOpen, setModalOpen,
+      isBulkModalOpen, setBulkModalOpen,
+      isPackModalOpen, setPackModalOpen,
+      isSettingsOpen, setSettingsOpen,
       toast, showToast, hideToast,
-      sentence, addToSentence, removeFromSentence, clearSentence
+      sentence, addToSentence, removeFromSentence, clearSentence,
+      ...savedPhrases, loadPhrase
     }}>
       {children}
     </UIContext.Provider>
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pictogram } from '../types';
+import { preloadClip } from '../services/audioPlayer';
+import { AUDIO_PRELOAD_LIMIT } from '../constants';
+
+// Safari has no requestIdleCallback; a short timeout is close enough
+const whenIdle = (callback: () => void): (() => void) => {
+  if (typeof window.requestIdleCallback === 'function') {
+    const handle = window.requestIdleCallback(callback, { timeout: 2000 });
+    return () => window.cancelIdleCallback(handle);
+  }
+  const handle = window.setTimeout(callback, 200);
+  return () => window.clearTimeout(handle);
+};
+
+const hasAudio = (p: Pictogram) => !!(p.audioUrl || p.audioBase64);
+
+/**
+ * Decodes the audio of the cards on screen (and just below) while the browser
+ * is idle, one clip per idle period, so the first tap on a card plays without
+ * decode lag. Pass the returned callback as the grid's ref; cards carry `data-pictogram-id`.
+ */
+export const useAudioPreload = (pictograms: Pictogram[]) => {
+  // State rather than a ref object: the grid unmounts while the list reloads
+  const [grid, setGrid] = useState<HTMLDivElement | null>(null);
+
+  // The list is rebuilt on every render; only restart when the cards themselves change
+  const latest = useRef(pictograms);
+  latest.current = pictograms;
+  const clipsKey = pictograms.filter(hasAudio).map(p => `${p.id}:${p.audioUrl || p.audioBase64?.length}`).join(',');
+
+  useEffect(() => {
+    if (!grid || typeof IntersectionObserver === 'undefined') return;
+
+    const visibleIds = new Set<string>();
+    let queue: Pictogram[] = [];
+    let isRunning = false;
+    let cancelled = false;
+    let cancelIdle: (() => void) | null = null;
+
+    const preloadNext = () => {
+      const pictogram = queue.shift();
+      if (!pictogram || cancelled) {
+        isRunning = false;
+        return;
+      }
+      // Already decoded clips come straight from the cache
+      preloadClip(pictogram)
+        .catch(err => console.warn('[Audio] Could not preload clip for', pictogram.word, err))
+        .finally(() => {
+          if (!cancelled) cancelIdle = whenIdle(preloadNext);
+        });
+    };
+
+    // Visible cards in grid order, at most AUDIO_PRELOAD_LIMIT of them
+    const schedule = () => {
+      queue = latest.current.filter(p => visibleIds.has(p.id) && hasAudio(p)).slice(0, AUDIO_PRELOAD_LIMIT);
+      if (!isRunning && queue.length > 0) {
+        isRunning = true;
+        cancelIdle = whenIdle(preloadNext);
+      }
+    };
+
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.pictogramId;
+        if (!id) return;
+        if (entry.isIntersecting) visibleIds.add(id);
+        else visibleIds.delete(id);
+      });
+      schedule();
+    }, { rootMargin: '200px 0px' }); // Start a little before cards scroll into view
+
+    grid.querySelectorAll<HTMLElement>('[data-pictogram-id]').forEach(card => observer.observe(card));
+
+    return () => {
+      cancelled = true;
+      cancelIdle?.();
+      observer.disconnect();
+    };
+  }, [grid, clipsKey]);
+
+  return setGrid;
+};
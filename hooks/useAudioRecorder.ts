@@ -0,0 +1,105 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { blobToBase64 } from '../services/geminiService';
+import { processRecording } from '../services/audioProcessing';
+
+export type RecorderStatus = 'idle' | 'recording' | 'processing';
+
+const MAX_RECORDING_MS = 10000; // A pictogram word never needs more than a few seconds
+
+/**
+ * MediaRecorder wrapper that yields a trimmed, normalized WAV clip as raw Base64,
+ * ready to be uploaded as a pictogram's audio.
+ */
+export const useAudioRecorder = (onRecorded: (audioBase64: string) => void) => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const timerRef = useRef<number | null>(null);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const releaseResources = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      releaseResources();
+    };
+  }, [releaseResources]);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    if (status !== 'idle') return;
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Este navegador no permite grabar audio.');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      chunksRef.current = [];
+
+      const recorder = new MediaRecorder(stream);
+      recorderRef.current = recorder;
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+
+      recorder.onstop = async () => {
+        releaseResources();
+        setStatus('processing');
+        try {
+          const rawBlob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+          const processed = await processRecording(rawBlob);
+          onRecordedRef.current(await blobToBase64(processed));
+        } catch (err) {
+          console.error("Error processing recording:", err);
+          setError('No se pudo procesar la grabación.');
+        } finally {
+          setStatus('idle');
+        }
+      };
+
+      recorder.start();
+      setStatus('recording');
+
+      const startedAt = Date.now();
+      setElapsedMs(0);
+      timerRef.current = window.setInterval(() => {
+        const elapsed = Date.now() - startedAt;
+        setElapsedMs(elapsed);
+        if (elapsed >= MAX_RECORDING_MS) stop();
+      }, 100);
+    } catch (err) {
+      console.error("Microphone access error:", err);
+      releaseResources();
+      setError('No se pudo acceder al micrófono. Revisa los permisos.');
+    }
+  }, [status, releaseResources, stop]);
+
+  return { status, error, elapsedMs, start, stop };
+};
@@ -0,0 +1,154 @@
+import { useEffect, useCallback, useReducer, useRef } from 'react';
+import { Board } from '../types';
+import { storage } from '../services/repositories';
+import { boardReducer, initialBoardState, ACTIVE_BOARD_STORAGE_KEY } from '../reducers/boardReducer';
+import {
+  fetchBoardsStart, fetchBoardsSuccess, fetchBoardsError,
+  addBoardAction, updateBoardAction, deleteBoardAction, boardFailure,
+  setActiveBoardAction
+} from '../reducers/boardActions';
+
+export const useBoards = () => {
+  const [state, dispatch] = useReducer(boardReducer, initialBoardState);
+
+  // Boards including changes dispatched but not rendered yet: edits build on these instead
+  // of this render's `state.boards`, so two quick additions don't overwrite each other
+  const latestBoards = useRef(state.boards);
+  latestBoards.current = state.boards;
+
+  // Fetch Boards
+  const loadBoards = useCallback(async () => {
+    dispatch(fetchBoardsStart());
+    try {
+      const data = await storage.boards.list();
+      dispatch(fetchBoardsSuccess(data.sort((a, b) => a.createdAt - b.createdAt)));
+    } catch (err) {
+      // Boards are optional: without them the app keeps showing every pictogram
+      console.error("Error fetching boards:", err);
+      dispatch(fetchBoardsError("No se pudieron cargar los tableros."));
+    }
+  }, []);
+
+  // Initial Load
+  useEffect(() => {
+    loadBoards();
+  }, [loadBoards]);
+
+  // Remember the active board between visits
+  useEffect(() => {
+    if (state.activeBoardId) {
+      localStorage.setItem(ACTIVE_BOARD_STORAGE_KEY, state.activeBoardId);
+    } else {
+      localStorage.removeItem(ACTIVE_BOARD_STORAGE_KEY);
+    }
+  }, [state.activeBoardId]);
+
+  const setActiveBoard = (id: string | null) => {
+    dispatch(setActiveBoardAction(id));
+  };
+
+  // Add Board (becomes the active one), optionally already filled
+  const addBoard = async (name: string, pictogramIds: string[] = []): Promise<Board> => {
+    try {
+      const created = await storage.boards.create({
+        name: name.trim(),
+        pictogramIds,
+        createdAt: Date.now()
+      });
+      latestBoards.current = [...latestBoards.current, created];
+      dispatch(addBoardAction(created));
+      dispatch(setActiveBoardAction(created.id));
+      return created;
+    } catch (err) {
+      console.error("Error adding board:", err);
+      throw err;
+    }
+  };
+
+  // Optimistically apply board changes and persist them, rolling back on failure
+  const applyBoardUpdate = async (id: string, updates: Partial<Omit<Board, 'id'>>, errorMessage: string) => {
+    const previousBoards = latestBoards.current;
+    latestBoards.current = previousBoards.map(b => b.id === id ? { ...b, ...updates } : b);
+    dispatch(updateBoardAction(id, updates));
+
+    try {
+      await storage.boards.update(id, updates);
+    } catch (err) {
+      console.error("Error updating board:", err);
+      latestBoards.current = previousBoards;
+      dispatch(boardFailure(previousBoards, errorMessage));
+      throw err;
+    }
+  };
+
+  const renameBoard = async (id: string, name: string) => {
+    await applyBoardUpdate(id, { name: name.trim() }, "No se pudo renombrar el tablero.");
+  };
+
+  // Remove Board
+  const removeBoard = async (id: string) => {
+    const previousBoards = latestBoards.current;
+    latestBoards.current = previousBoards.filter(b => b.id !== id);
+    dispatch(deleteBoardAction(id));
+
+    try {
+      await storage.boards.delete(id);
+    } catch (err) {
+      console.error("Error deleting board:", err);
+      latestBoards.current = previousBoards;
+      dispatch(boardFailure(previousBoards, "No se pudo eliminar el tablero."));
+      throw err;
+    }
+  };
+
+  // Several at once (e.g. after bulk generation) so the additions don't overwrite each other
+  const addPictogramsToBoard = async (boardId: string, pictogramIds: string[]) => {
+    const board = latestBoards.current.find(b => b.id === boardId);
+    if (!board) return;
+
+    const newIds = pictogramIds.filter((id, index) => !board.pictogramIds.includes(id) && pictogramIds.indexOf(id) === index);
+    if (newIds.length === 0) return;
+
+    await applyBoardUpdate(boardId, { pictogramIds: [...board.pictogramIds, ...newIds] }, "No se pudo agregar al tablero.");
+  };
+
+  const addPictogramToBoard = (boardId: string, pictogramId: string) => addPictogramsToBoard(boardId, [pictogramId]);
+
+  const removePictogramFromBoard = async (boardId: string, pictogramId: string) => {
+    const board = latestBoards.current.find(b => b.id === boardId);
+    if (!board) return;
+
+    await applyBoardUpdate(boardId, { pictogramIds: board.pictogramIds.filter(id => id !== pictogramId) }, "No se pudo quitar del tablero.");
+  };
+
+  const reorderBoard = async (boardId: string, pictogramIds: string[]) => {
+    await applyBoardUpdate(boardId, { pictogramIds }, "No se pudo guardar el orden del tablero.");
+  };
+
+  // A pictogram created offline got its server id: update every board that references it
+  const replacePictogramId = (oldId: string, newId: string) => {
+    latestBoards.current
+      .filter(b => b.pictogramIds.includes(oldId))
+      .forEach(b => {
+        const pictogramIds = b.pictogramIds.map(id => id === oldId ? newId : id);
+        applyBoardUpdate(b.id, { pictogramIds }, "No se pudo actualizar el tablero.").catch(() => {});
+      });
+  };
+
+  return {
+    boards: state.boards,
+    activeBoardId: state.activeBoardId,
+    boardsLoading: state.loading,
+    boardsError: state.error,
+    loadBoards,
+    setActiveBoard,
+    addBoard,
+    renameBoard,
+    removeBoard,
+    addPictogramToBoard,
+    addPictogramsToBoard,
+    removePictogramFromBoard,
+    reorderBoard,
+    replacePictogramId
+  };
+};
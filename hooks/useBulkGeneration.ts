@@ -0,0 +1,102 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { generation } from '../services/providers';
+import { runGenerationJob, isGenerationCancelled } from '../services/generationQueue';
+import { BulkRow } from '../services/bulkImport';
+import { VoiceSettings } from '../types';
+
+export type BulkItemStatus = 'pending' | 'generating' | 'ready' | 'error';
+
+export interface BulkItem extends BulkRow {
+  key: string;
+  voice: VoiceSettings; // The row's voice (or the default) with the default's accent, style and speed
+  status: BulkItemStatus;
+  image: string | null; // Data URL, not uploaded until the review is approved
+  audio: string | null; // Raw Base64 TTS
+  error?: string;
+  included: boolean; // Checked in the review step
+}
+
+/**
+ * Generates image + audio for many words through the generation queue
+ * (which limits concurrency and retries rate limits).
+ * Nothing is saved here: results wait for review in the bulk modal.
+ */
+export const useBulkGeneration = (styleId: string) => {
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Aborted on reset/unmount so queued jobs of a discarded run are cancelled
+  const abortRef = useRef(new AbortController());
+  useEffect(() => () => abortRef.current.abort(), []);
+
+  const cancelRun = () => {
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+  };
+
+  const updateItem = useCallback((key: string, updates: Partial<BulkItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...updates } : item));
+  }, []);
+
+  // Replaces the current rows; returns them so the caller can start generating right away
+  const loadRows = useCallback((rows: BulkRow[], defaultVoice: VoiceSettings): BulkItem[] => {
+    cancelRun();
+    setIsRunning(false);
+    const loaded: BulkItem[] = rows.map(row => ({
+      ...row,
+      key: uuidv4(),
+      voice: { ...defaultVoice, voiceId: row.voiceId || defaultVoice.voiceId },
+      status: 'pending',
+      image: null,
+      audio: null,
+      included: true
+    }));
+    setItems(loaded);
+    return loaded;
+  }, []);
+
+  const generate = useCallback(async (targets: BulkItem[]) => {
+    if (targets.length === 0) return;
+    const { signal } = abortRef.current;
+    setIsRunning(true);
+
+    await Promise.all(targets.map(async (item) => {
+      updateItem(item.key, { status: 'generating', error: undefined });
+      try {
+        const [image, audio] = await Promise.all([
+          runGenerationJob('image', `Imagen: ${item.word}`, s => generation.image.generate(item.word, styleId, undefined, s), { signal }),
+          runGenerationJob('audio', `Voz: ${item.word}`, s => generation.speech.synthesize(item.word, item.voice, s), { signal })
+        ]);
+        updateItem(item.key, { status: 'ready', image, audio });
+      } catch (err) {
+        if (signal.aborted) return; // Run discarded, rows are gone
+        if (!isGenerationCancelled(err)) console.error(`Bulk generation failed for ${item.word}:`, err);
+        updateItem(item.key, { status: 'error', error: isGenerationCancelled(err) ? 'Cancelado' : 'No se pudo generar' });
+      }
+    }));
+
+    if (!signal.aborted) setIsRunning(false);
+  }, [styleId, updateItem]);
+
+  const retryFailed = useCallback(() => {
+    return generate(items.filter(item => item.status === 'error'));
+  }, [items, generate]);
+
+  const retryItem = useCallback((key: string) => {
+    const item = items.find(i => i.key === key);
+    return item ? generate([item]) : Promise.resolve();
+  }, [items, generate]);
+
+  const removeItem = useCallback((key: string) => {
+    setItems(prev => prev.filter(item => item.key !== key));
+  }, []);
+
+  const reset = useCallback(() => {
+    cancelRun();
+    setIsRunning(false);
+    setItems([]);
+  }, []);
+
+  return { items, isRunning, loadRows, generate, retryFailed, retryItem, updateItem, removeItem, reset };
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { GenerationJob } from '../types';
+import { getJobs, subscribeToJobs } from '../services/generationQueue';
+
+/**
+ * Live view of the generation queue for the jobs panel.
+ */
+export const useGenerationJobs = (): GenerationJob[] => {
+  const [jobs, setJobs] = useState<GenerationJob[]>(getJobs);
+
+  useEffect(() => subscribeToJobs(() => setJobs(getJobs())), []);
+
+  return jobs;
+};
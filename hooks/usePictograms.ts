@@ -1,37 +1,98 @@
-import { useEffect, useCallback, useReducer } from 'react';
-import { Pictogram } from '../types';
-import { 
-  listPictograms, 
-  createPictogram, 
-  deletePictogram, 
-  updatePictogram 
-} from '../services/apiService';
-import { generatePictogramImage, generatePictogramAudio } from '../services/geminiService';
-import { uploadImageToS3 } from '../services/storageService';
+import { useEffect, useCallback, useReducer, useRef } from 'react';
+import { Pictogram, PictogramCategory, VocabularyWord } from '../types';
+import { storage } from '../services/repositories';
+import {
+  getPendingMutations,
+  getPendingPictogramIds,
+  getConflicts,
+  dismissConflict,
+  subscribeToOutbox
+} from '../services/outboxService';
+import { generation } from '../services/providers';
+import { getActiveVoice, loadPreferences } from '../services/preferencesService';
+import { runGenerationJob } from '../services/generationQueue';
+import { forgetDecodedClip } from '../services/audioBufferCache';
+import { audioFileName, describeAudio } from '../services/audioProcessing';
+import { migrateInlineAudio } from '../services/audioMigration';
 import { pictogramReducer, initialState } from '../reducers/pictogramReducer';
 import { 
   fetchStart, fetchSuccess, fetchError, 
   addSuccess, 
   deletePictogramAction, deleteFailure, 
   updatePictogramAction, 
-  reorderPictogramsAction,
+  reorderPictogramsAction, reorderFailure,
+  syncStatusChanged,
   generateExamplesStart, generateExamplesSuccess, generateExamplesError 
 } from '../reducers/pictogramActions';
 
-const EXAMPLE_WORDS = ['Perro', 'Casa', 'Feliz'];
+export interface PictogramEdits {
+  word: string;
+  category?: PictogramCategory | null; // null removes the category, undefined leaves it as is
+  customAudio?: string; // Parent's recording (raw Base64); replaces TTS
+}
+
+/**
+ * Stored order first: pictograms that were never reordered (no position yet)
+ * go on top, newest first, followed by the rest in their saved position.
+ */
+const sortByPosition = (pictograms: Pictogram[]): Pictogram[] => {
+  return [...pictograms].sort((a, b) => {
+    const aHasPosition = typeof a.position === 'number';
+    const bHasPosition = typeof b.position === 'number';
+    if (aHasPosition && bHasPosition) return a.position! - b.position!;
+    if (aHasPosition !== bHasPosition) return aHasPosition ? 1 : -1;
+    return b.createdAt - a.createdAt;
+  });
+};
+
+/**
+ * Overlay mutations still waiting in the outbox on top of the server list,
+ * so offline changes survive a reload.
+ */
+const applyPendingMutations = async (pictograms: Pictogram[]): Promise<Pictogram[]> => {
+  const pending = await getPendingMutations();
+  let result = pictograms;
+  for (const mutation of pending) {
+    if (mutation.type === 'create') {
+      result = [{ ...mutation.payload, id: mutation.pictogramId }, ...result];
+    } else if (mutation.type === 'update') {
+      result = result.map(p => p.id === mutation.pictogramId ? { ...p, ...mutation.payload } : p);
+    } else if (mutation.type === 'reorder') {
+      const positions = new Map(mutation.positions.map(({ id, position }) => [id, position]));
+      result = result.map(p => positions.has(p.id) ? { ...p, position: positions.get(p.id) } : p);
+    } else {
+      result = result.filter(p => p.id !== mutation.pictogramId);
+    }
+  }
+  return result;
+};
 
-export const usePictograms = () => {
+interface UsePictogramsOptions {
+  // Called when a pictogram created offline receives its server id
+  onPictogramIdChanged?: (oldId: string, newId: string) => void;
+}
+
+export const usePictograms = ({ onPictogramIdChanged }: UsePictogramsOptions = {}) => {
   const [state, dispatch] = useReducer(pictogramReducer, initialState);
 
+  // Keep the latest callback without re-subscribing the sync listeners
+  const onPictogramIdChangedRef = useRef(onPictogramIdChanged);
+  onPictogramIdChangedRef.current = onPictogramIdChanged;
+
   // Fetch Pictograms
   const loadPictograms = useCallback(async () => {
     dispatch(fetchStart());
     try {
-      const data = await listPictograms();
-      // Sort by newest first by default, unless we have a stored order field. 
-      // For now, we respect the order returned or default sort.
-      const sorted = data.sort((a, b) => b.createdAt - a.createdAt);
-      dispatch(fetchSuccess(sorted));
+      const data = await storage.pictograms.list();
+      dispatch(fetchSuccess(sortByPosition(await applyPendingMutations(data))));
+
+      // Move audio still stored inline to files, without holding up the grid
+      migrateInlineAudio(data)
+        .then(migrated => migrated.forEach(({ id, audioUrl, audioFormat }) => {
+          dispatch(updatePictogramAction(id, { audioUrl, audioFormat, audioBase64: null }));
+          forgetDecodedClip(id);
+        }))
+        .catch(err => console.error("Error migrating audio:", err));
     } catch (err) {
       console.error("Error fetching pictograms:", err);
       dispatch(fetchError("No se pudo conectar con el servidor."));
@@ -43,12 +104,105 @@ export const usePictograms = () => {
     loadPictograms();
   }, [loadPictograms]);
 
+  // --- Offline Outbox ---
+
+  const refreshSyncStatus = useCallback(async () => {
+    const [pendingIds, conflicts] = await Promise.all([getPendingPictogramIds(), getConflicts()]);
+    dispatch(syncStatusChanged(pendingIds, conflicts));
+  }, []);
+
+  const syncPending = useCallback(async () => {
+    if (!navigator.onLine) return;
+    try {
+      const { created } = await storage.pictograms.sync();
+      created.forEach(({ tempId, pictogram }) => {
+        dispatch(updatePictogramAction(tempId, pictogram));
+        onPictogramIdChangedRef.current?.(tempId, pictogram.id);
+      });
+    } catch (err) {
+      console.error("Error syncing offline changes:", err);
+    }
+  }, []);
+
+  // Track the queue and replay it whenever the connection comes back
+  useEffect(() => {
+    refreshSyncStatus();
+    const unsubscribe = subscribeToOutbox(refreshSyncStatus);
+    syncPending();
+    window.addEventListener('online', syncPending);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', syncPending);
+    };
+  }, [refreshSyncStatus, syncPending]);
+
+  // --- Outdated Audio ---
+
+  // Latest list for the online listener below
+  const pictogramsRef = useRef(state.pictograms);
+  pictogramsRef.current = state.pictograms;
+  const regeneratingAudio = useRef(false);
+  const generatingExamples = useRef(false);
+
+  // Speak a pictogram's current word again in its voice and store the new clip
+  const regenerateAudio = useCallback(async (pictogram: Pictogram) => {
+    // Older pictograms only know their voice id; the child's accent, style and speed fill in
+    const activeVoice = getActiveVoice(loadPreferences());
+    const voice = pictogram.voice || { ...activeVoice, voiceId: pictogram.voiceId || activeVoice.voiceId };
+    const word = pictogram.word.toLowerCase();
+    const audio = await runGenerationJob('audio', `Voz: ${word}`, signal => generation.speech.synthesize(word, voice, signal));
+
+    const audioUrl = await storage.pictograms.uploadAudio(audio, audioFileName(`audio-${pictogram.id}-${Date.now()}`, audio));
+    const updates: Partial<Pictogram> = {
+      audioUrl,
+      audioFormat: describeAudio(audio),
+      audioBase64: null,
+      isCustomAudio: false,
+      voiceId: voice.voiceId,
+      voice,
+      audioOutdated: false
+    };
+    dispatch(updatePictogramAction(pictogram.id, updates));
+    forgetDecodedClip(pictogram.id);
+    await storage.pictograms.update(pictogram.id, updates);
+    syncPending();
+  }, [syncPending]);
+
+  // Words renamed without a connection get their new audio once there is one
+  const regenerateOutdatedAudio = useCallback(async () => {
+    if (regeneratingAudio.current || !navigator.onLine) return;
+    regeneratingAudio.current = true;
+    try {
+      for (const pictogram of pictogramsRef.current.filter(p => p.audioOutdated)) {
+        if (!navigator.onLine) break;
+        try {
+          await regenerateAudio(pictogram);
+        } catch (err) {
+          console.warn("Could not regenerate audio for", pictogram.word, err);
+        }
+      }
+    } finally {
+      regeneratingAudio.current = false;
+    }
+  }, [regenerateAudio]);
+
+  useEffect(() => {
+    if (!state.loading) regenerateOutdatedAudio();
+    window.addEventListener('online', regenerateOutdatedAudio);
+    return () => window.removeEventListener('online', regenerateOutdatedAudio);
+  }, [state.loading, regenerateOutdatedAudio]);
+
+  const dismissSyncConflict = async (seq: number) => {
+    await dismissConflict(seq);
+  };
+
   // Add Pictogram
   const addPictogram = async (newPictogram: Pictogram) => {
     try {
       const { id, ...pictogramData } = newPictogram;
-      const created = await createPictogram(pictogramData);
+      const created = await storage.pictograms.create(pictogramData);
       dispatch(addSuccess(created));
+      syncPending();
       return created;
     } catch (err) {
       console.error("Error adding pictogram:", err);
@@ -62,9 +216,11 @@ export const usePictograms = () => {
     
     // Optimistic update
     dispatch(deletePictogramAction(id));
+    forgetDecodedClip(id);
     
     try {
-      await deletePictogram(id);
+      await storage.pictograms.delete(id);
+      syncPending();
     } catch (err) {
       console.error("Error deleting pictogram:", err);
       // Rollback
@@ -74,89 +230,139 @@ export const usePictograms = () => {
   };
 
   // Update Pictogram
-  const editPictogram = async (id: string, newWord: string) => {
+  const editPictogram = async (id: string, { word: newWord, category, customAudio }: PictogramEdits) => {
     const picToUpdate = state.pictograms.find(p => p.id === id);
     if (!picToUpdate) return;
 
+    const updates: Partial<Pictogram> = { word: newWord.toUpperCase() };
     try {
-        let updates: Partial<Pictogram> = { word: newWord.toUpperCase() };
+        if (category !== undefined) {
+            updates.category = category;
+        }
+        if (customAudio) {
+            updates.audioUrl = await storage.pictograms.uploadAudio(customAudio, audioFileName(`audio-${id}-${Date.now()}`, customAudio));
+            updates.audioFormat = describeAudio(customAudio);
+            updates.audioBase64 = null;
+            updates.isCustomAudio = true;
+            updates.audioOutdated = false;
+        } else if (picToUpdate.word !== updates.word) {
+            // A new word needs new audio (unless a recording was provided); it is
+            // regenerated after saving, or once online
+            updates.audioOutdated = true;
+        }
 
         // Optimistic update
         dispatch(updatePictogramAction(id, updates));
+        if (customAudio) forgetDecodedClip(id);
 
-        // If word changed, regenerate audio
-        if (picToUpdate.word !== newWord.toUpperCase()) {
-            const voiceToUse = picToUpdate.voiceId || 'Zephyr';
-            const newAudioBase64 = await generatePictogramAudio(newWord, voiceToUse);
-            
-            updates.audioBase64 = newAudioBase64;
-            updates.isCustomAudio = false;
-            
-            // Update again with audio
-            dispatch(updatePictogramAction(id, { audioBase64: newAudioBase64, isCustomAudio: false }));
-        }
-
-        // Call API to persist
-        await updatePictogram(id, updates);
+        // Persisted before any generation, so offline the edit is queued like any other
+        await storage.pictograms.update(id, updates);
+        syncPending();
 
     } catch (err) {
         console.error("Error updating pictogram:", err);
         loadPictograms(); // Revert to server state on error
         throw err;
     }
+
+    if (updates.audioOutdated && navigator.onLine) {
+        try {
+            await regenerateAudio({ ...picToUpdate, ...updates });
+        } catch (err) {
+            // The rename stands; the audio is retried on the next load or reconnection
+            console.warn("Could not regenerate audio, will retry later:", err);
+        }
+    }
   };
 
-  // Reorder Pictograms (Local only for now, persist if backend supports it)
-  const reorderPictograms = (newOrder: Pictogram[]) => {
-    dispatch(reorderPictogramsAction(newOrder));
+  // Replace the image of an existing pictogram (e.g. after refining it)
+  const updatePictogramImage = async (id: string, imageBase64: string) => {
+    try {
+      const imageUrl = await storage.pictograms.upload(imageBase64, `pictogram-${id}-${Date.now()}.png`);
+      // A refined image is AI output, even if it started from an imported photo
+      dispatch(updatePictogramAction(id, { imageUrl, isCustomImage: false }));
+      await storage.pictograms.update(id, { imageUrl, isCustomImage: false });
+      syncPending();
+    } catch (err) {
+      console.error("Error updating pictogram image:", err);
+      loadPictograms(); // Revert to server state on error
+      throw err;
+    }
   };
 
-  // Generate Examples logic
-  const generateExamples = async (): Promise<number> => {
-    if (state.loadingExamples) return 0;
+  // Reorder Pictograms
+  const reorderPictograms = async (newOrder: Pictogram[]) => {
+    const previousPictograms = state.pictograms;
+    const positioned = newOrder.map((p, index) => ({ ...p, position: index }));
+
+    // Optimistic update
+    dispatch(reorderPictogramsAction(positioned));
+
+    try {
+      await storage.pictograms.reorder(positioned.map(({ id, position }) => ({ id, position })));
+      syncPending();
+    } catch (err) {
+      console.error("Error reordering pictograms:", err);
+      // Rollback
+      dispatch(reorderFailure(previousPictograms));
+      throw err;
+    }
+  };
+
+  // Generate and save a list of words (e.g. an approved vocabulary pack).
+  // Resolves with the pictograms that were created (failed words are skipped),
+  // or null when a list is already being generated.
+  const generateExamples = async (words: VocabularyWord[]): Promise<Pictogram[] | null> => {
+    // A ref, not state.loadingExamples: a double click lands before the re-render
+    if (generatingExamples.current) return null;
+    generatingExamples.current = true;
     dispatch(generateExamplesStart());
     
     try {
-        const promises = EXAMPLE_WORDS.map(async (word) => {
+        const preferences = loadPreferences();
+        const { defaultStyleId } = preferences;
+        const voice = getActiveVoice(preferences);
+        // The generation queue throttles these, so every word can be requested at once
+        const results = await Promise.all(words.map(async ({ word, category }) => {
             try {
                 const [image, audio] = await Promise.all([
-                    generatePictogramImage(word),
-                    generatePictogramAudio(word, 'Zephyr')
+                    runGenerationJob('image', `Imagen: ${word}`, signal => generation.image.generate(word, defaultStyleId, undefined, signal)),
+                    runGenerationJob('audio', `Voz: ${word}`, signal => generation.speech.synthesize(word, voice, signal))
                 ]);
                 
-                const imageUrl = await uploadImageToS3(image, `example-${word}-${Date.now()}.png`);
+                const imageUrl = await storage.pictograms.upload(image, `example-${word}-${Date.now()}.png`);
+                const audioUrl = await storage.pictograms.uploadAudio(audio, audioFileName(`example-${word}-${Date.now()}`, audio));
                 
                 const pictogramData = {
                     word: word.toUpperCase(),
                     imageUrl,
-                    audioBase64: audio,
+                    audioUrl,
+                    audioFormat: describeAudio(audio),
                     createdAt: Date.now(),
-                    voiceId: 'Zephyr',
-                    isCustomAudio: false
+                    voiceId: voice.voiceId,
+                    voice,
+                    isCustomAudio: false,
+                    category,
+                    styleId: defaultStyleId
                 };
 
-                const created = await createPictogram(pictogramData);
+                const created = await storage.pictograms.create(pictogramData);
                 return created;
             } catch (error) {
                 console.error(`Error generating example for ${word}:`, error);
                 return null;
             }
-        });
+        }));
         
-        const results = await Promise.all(promises);
         const successfulPictograms = results.filter((p): p is Pictogram => p !== null);
-        
-        if (successfulPictograms.length > 0) {
-            dispatch(generateExamplesSuccess(successfulPictograms));
-            return successfulPictograms.length;
-        }
-        
-        dispatch(generateExamplesSuccess([])); // Stop loading state
-        return 0;
+        dispatch(generateExamplesSuccess(successfulPictograms)); // Also stops the loading state
+        return successfulPictograms;
     } catch (err) {
         console.error("Error in bulk generation:", err);
         dispatch(generateExamplesError("Error generando ejemplos."));
         throw err;
+    } finally {
+        generatingExamples.current = false;
     }
   };
 
@@ -165,10 +371,14 @@ export const usePictograms = () => {
     loading: state.loading,
     error: state.error,
     loadingExamples: state.loadingExamples,
+    pendingSyncIds: state.pendingSyncIds,
+    syncConflicts: state.syncConflicts,
+    dismissSyncConflict,
     loadPictograms,
     addPictogram,
     removePictogram,
     editPictogram,
+    updatePictogramImage,
     reorderPictograms,
     generateExamples
   };
@@ -0,0 +1,26 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Pictogram } from '../types';
+import { loadModel, predictNext, subscribeToPredictions } from '../services/predictionService';
+import { usePreferencesContext } from '../context/PreferencesContext';
+import { PREDICTION_SUGGESTION_COUNT } from '../constants';
+
+/**
+ * Suggested next pictograms for the active child, given the current sentence.
+ * Only `candidates` (e.g. the board on screen) are ever suggested.
+ */
+export const usePredictions = (sentence: Pictogram[], candidates: Pictogram[]): Pictogram[] => {
+  const { preferences } = usePreferencesContext();
+  const childId = preferences.activeChildId;
+  const [modelVersion, setModelVersion] = useState(0);
+
+  useEffect(() => subscribeToPredictions(() => setModelVersion(v => v + 1)), []);
+
+  useEffect(() => {
+    loadModel(childId);
+  }, [childId]);
+
+  return useMemo(
+    () => predictNext(childId, sentence.map(p => p.id), candidates, PREDICTION_SUGGESTION_COUNT),
+    [childId, sentence, candidates, modelVersion]
+  );
+};
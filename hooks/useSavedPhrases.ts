@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Pictogram, SavedPhrase } from '../types';
+import { PHRASE_HISTORY_LIMIT } from '../constants';
+import { loadSavedPhrases, putSavedPhrase, removeSavedPhrase, syncSavedPhrases } from '../services/savedPhrasesService';
+
+const sequenceKey = (pictogramIds: string[]) => pictogramIds.join(',');
+
+/**
+ * Sentence history and pinned phrases, available immediately from the device
+ * and reconciled with the backend on load and whenever the connection returns.
+ */
+export const useSavedPhrases = () => {
+  const [phrases, setPhrases] = useState<SavedPhrase[]>(loadSavedPhrases);
+
+  useEffect(() => {
+    const sync = () => {
+      syncSavedPhrases().then(setPhrases);
+    };
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, []);
+
+  // Same sequence of pictograms = same phrase, so repeats refresh it instead of piling up
+  const upsertPhrase = async (pictograms: Pictogram[], text: string, updates: Partial<SavedPhrase> = {}): Promise<SavedPhrase> => {
+    const pictogramIds = pictograms.map(p => p.id);
+    const existing = phrases.find(p => sequenceKey(p.pictogramIds) === sequenceKey(pictogramIds));
+    const now = Date.now();
+    const phrase: SavedPhrase = existing
+      ? { ...existing, text, updatedAt: now, ...updates }
+      : { id: uuidv4(), pictogramIds, text, pinned: false, createdAt: now, updatedAt: now, ...updates };
+
+    setPhrases(prev => [...prev.filter(p => p.id !== phrase.id), phrase]);
+    await putSavedPhrase(phrase);
+    return phrase;
+  };
+
+  const deletePhrase = async (id: string) => {
+    setPhrases(prev => prev.filter(p => p.id !== id));
+    await removeSavedPhrase(id);
+  };
+
+  // Add a spoken sentence to the history, dropping the oldest unpinned ones past the limit
+  const recordSpokenPhrase = async (pictograms: Pictogram[], text: string) => {
+    if (pictograms.length === 0) return;
+    const phrase = await upsertPhrase(pictograms, text);
+
+    const overflow = [...phrases.filter(p => p.id !== phrase.id), phrase]
+      .filter(p => !p.pinned)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(PHRASE_HISTORY_LIMIT);
+    await Promise.all(overflow.map(p => deletePhrase(p.id)));
+  };
+
+  const pinPhrase = async (pictograms: Pictogram[], text: string) => {
+    if (pictograms.length === 0) return;
+    await upsertPhrase(pictograms, text, { pinned: true });
+  };
+
+  const setPhrasePinned = async (id: string, pinned: boolean) => {
+    const existing = phrases.find(p => p.id === id);
+    if (!existing) return;
+    const phrase = { ...existing, pinned, updatedAt: Date.now() };
+    setPhrases(prev => prev.map(p => p.id === id ? phrase : p));
+    await putSavedPhrase(phrase);
+  };
+
+  const pinnedPhrases = phrases.filter(p => p.pinned).sort((a, b) => a.createdAt - b.createdAt);
+  const phraseHistory = phrases.filter(p => !p.pinned).sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return { pinnedPhrases, phraseHistory, recordSpokenPhrase, pinPhrase, setPhrasePinned, deletePhrase };
+};
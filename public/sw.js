@@ -1,15 +1,17 @@
 // Service Worker for LeoPictos PWA
-// Implements aggressive caching for S3 images and smart caching for API calls
+// Implements aggressive caching for S3 images and audio, and smart caching for API calls
 
 const CACHE_VERSION = 'v1';
 const CACHE_NAMES = {
   images: `leopictos-images-${CACHE_VERSION}`,
+  audio: `leopictos-audio-${CACHE_VERSION}`,
   api: `leopictos-api-${CACHE_VERSION}`,
   static: `leopictos-static-${CACHE_VERSION}`
 };
 
 const API_ENDPOINT = 'https://rmxx2fv016.execute-api.us-east-1.amazonaws.com/dev';
 const S3_PATTERN = /\.s3\.amazonaws\.com/;
+const AUDIO_FILE_PATTERN = /\.(wav|webm|ogg|m4a|mp3|pcm)$/i;
 const CACHE_MAX_AGE = 5 * 60 * 1000; // 5 minutes for API cache
 
 // Install event - cache static assets
@@ -60,7 +62,13 @@ self.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Strategy 1: Cache-First for S3 images (permanent cache)
+  // Strategy 1: Cache-First for S3 audio files (permanent cache, kept apart from images)
+  if (request.method === 'GET' && S3_PATTERN.test(url.hostname) && AUDIO_FILE_PATTERN.test(url.pathname)) {
+    event.respondWith(cacheFirstStrategy(request, CACHE_NAMES.audio));
+    return;
+  }
+
+  // Strategy 1b: Cache-First for S3 images (permanent cache)
   if (S3_PATTERN.test(url.hostname)) {
     event.respondWith(cacheFirstStrategy(request, CACHE_NAMES.images));
     return;
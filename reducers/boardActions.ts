@@ -0,0 +1,41 @@
+import { Board } from '../types';
+import { BoardAction, BoardActionTypes } from './boardTypes';
+
+export const fetchBoardsStart = (): BoardAction => ({
+  type: BoardActionTypes.FETCH_BOARDS_START
+});
+
+export const fetchBoardsSuccess = (boards: Board[]): BoardAction => ({
+  type: BoardActionTypes.FETCH_BOARDS_SUCCESS,
+  payload: boards
+});
+
+export const fetchBoardsError = (error: string): BoardAction => ({
+  type: BoardActionTypes.FETCH_BOARDS_ERROR,
+  payload: error
+});
+
+export const addBoardAction = (board: Board): BoardAction => ({
+  type: BoardActionTypes.ADD_BOARD,
+  payload: board
+});
+
+export const updateBoardAction = (id: string, updates: Partial<Board>): BoardAction => ({
+  type: BoardActionTypes.UPDATE_BOARD,
+  payload: { id, updates }
+});
+
+export const deleteBoardAction = (id: string): BoardAction => ({
+  type: BoardActionTypes.DELETE_BOARD,
+  payload: id
+});
+
+export const boardFailure = (previousBoards: Board[], error: string): BoardAction => ({
+  type: BoardActionTypes.BOARD_FAILURE,
+  payload: { boards: previousBoards, error }
+});
+
+export const setActiveBoardAction = (id: string | null): BoardAction => ({
+  type: BoardActionTypes.SET_ACTIVE_BOARD,
+  payload: id
+});
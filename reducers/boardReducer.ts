@@ -0,0 +1,68 @@
+import { BoardState, BoardAction, BoardActionTypes } from './boardTypes';
+
+export const ACTIVE_BOARD_STORAGE_KEY = 'activeBoardId';
+
+export const initialBoardState: BoardState = {
+  boards: [],
+  activeBoardId: typeof window !== 'undefined' ? localStorage.getItem(ACTIVE_BOARD_STORAGE_KEY) : null,
+  loading: true,
+  error: null
+};
+
+export const boardReducer = (state: BoardState, action: BoardAction): BoardState => {
+  switch (action.type) {
+    case BoardActionTypes.FETCH_BOARDS_START:
+      return {
+        ...state,
+        loading: true,
+        error: null
+      };
+    case BoardActionTypes.FETCH_BOARDS_SUCCESS:
+      return {
+        ...state,
+        loading: false,
+        boards: action.payload,
+        // Drop a remembered board that no longer exists
+        activeBoardId: action.payload.some(b => b.id === state.activeBoardId) ? state.activeBoardId : null,
+        error: null
+      };
+    case BoardActionTypes.FETCH_BOARDS_ERROR:
+      return {
+        ...state,
+        loading: false,
+        error: action.payload
+      };
+    case BoardActionTypes.ADD_BOARD:
+      return {
+        ...state,
+        boards: [...state.boards, action.payload]
+      };
+    case BoardActionTypes.UPDATE_BOARD:
+      return {
+        ...state,
+        boards: state.boards.map(b =>
+          b.id === action.payload.id ? { ...b, ...action.payload.updates } : b
+        )
+      };
+    case BoardActionTypes.DELETE_BOARD:
+      return {
+        ...state,
+        boards: state.boards.filter(b => b.id !== action.payload),
+        activeBoardId: state.activeBoardId === action.payload ? null : state.activeBoardId
+      };
+    case BoardActionTypes.BOARD_FAILURE:
+      return {
+        ...state,
+        boards: action.payload.boards, // Rollback to previous state
+        activeBoardId: action.payload.boards.some(b => b.id === state.activeBoardId) ? state.activeBoardId : null,
+        error: action.payload.error
+      };
+    case BoardActionTypes.SET_ACTIVE_BOARD:
+      return {
+        ...state,
+        activeBoardId: action.payload
+      };
+    default:
+      return state;
+  }
+};
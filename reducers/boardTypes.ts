@@ -0,0 +1,31 @@
+import { Board } from '../types';
+
+export interface BoardState {
+  boards: Board[];
+  activeBoardId: string | null; // null = "Todos" (every pictogram)
+  loading: boolean;
+  error: string | null;
+}
+
+export enum BoardActionTypes {
+  FETCH_BOARDS_START = 'FETCH_BOARDS_START',
+  FETCH_BOARDS_SUCCESS = 'FETCH_BOARDS_SUCCESS',
+  FETCH_BOARDS_ERROR = 'FETCH_BOARDS_ERROR',
+
+  ADD_BOARD = 'ADD_BOARD',
+  UPDATE_BOARD = 'UPDATE_BOARD',
+  DELETE_BOARD = 'DELETE_BOARD',
+  BOARD_FAILURE = 'BOARD_FAILURE', // To rollback optimistic updates
+
+  SET_ACTIVE_BOARD = 'SET_ACTIVE_BOARD'
+}
+
+export type BoardAction =
+  | { type: BoardActionTypes.FETCH_BOARDS_START }
+  | { type: BoardActionTypes.FETCH_BOARDS_SUCCESS; payload: Board[] }
+  | { type: BoardActionTypes.FETCH_BOARDS_ERROR; payload: string }
+  | { type: BoardActionTypes.ADD_BOARD; payload: Board }
+  | { type: BoardActionTypes.UPDATE_BOARD; payload: { id: string; updates: Partial<Board> } }
+  | { type: BoardActionTypes.DELETE_BOARD; payload: string }
+  | { type: BoardActionTypes.BOARD_FAILURE; payload: { boards: Board[]; error: string } } // Rollback payload
+  | { type: BoardActionTypes.SET_ACTIVE_BOARD; payload: string | null };
@@ -1,4 +1,5 @@
 import { Pictogram } from '../types';
+import { OutboxConflict } from '../services/outboxService';
 import { PictogramAction, PictogramActionTypes } from './pictogramTypes';
 
 export const fetchStart = (): PictogramAction => ({
@@ -40,6 +41,16 @@ export const reorderPictogramsAction = (pictograms: Pictogram[]): PictogramActio
   payload: pictograms
 });
 
+export const reorderFailure = (previousPictograms: Pictogram[]): PictogramAction => ({
+  type: PictogramActionTypes.REORDER_FAILURE,
+  payload: previousPictograms
+});
+
+export const syncStatusChanged = (pendingSyncIds: string[], syncConflicts: OutboxConflict[]): PictogramAction => ({
+  type: PictogramActionTypes.SYNC_STATUS_CHANGED,
+  payload: { pendingSyncIds, syncConflicts }
+});
+
 export const generateExamplesStart = (): PictogramAction => ({
   type: PictogramActionTypes.GENERATE_EXAMPLES_START
 });
@@ -4,7 +4,9 @@ export const initialState: PictogramState = {
   pictograms: [],
   loading: false,
   loadingExamples: false,
-  error: null
+  error: null,
+  pendingSyncIds: [],
+  syncConflicts: []
 };
 
 export const pictogramReducer = (state: PictogramState, action: PictogramAction): PictogramState => {
@@ -56,6 +58,18 @@ export const pictogramReducer = (state: PictogramState, action: PictogramAction)
         ...state,
         pictograms: action.payload
       };
+    case PictogramActionTypes.REORDER_FAILURE:
+      return {
+        ...state,
+        // Rollback to previous order. No `error`: that replaces the grid, and the caller shows a toast
+        pictograms: action.payload
+      };
+    case PictogramActionTypes.SYNC_STATUS_CHANGED:
+      return {
+        ...state,
+        pendingSyncIds: action.payload.pendingSyncIds,
+        syncConflicts: action.payload.syncConflicts
+      };
     case PictogramActionTypes.GENERATE_EXAMPLES_START:
       return {
         ...state,
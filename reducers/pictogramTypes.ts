@@ -1,10 +1,13 @@
 import { Pictogram } from '../types';
+import { OutboxConflict } from '../services/outboxService';
 
 export interface PictogramState {
   pictograms: Pictogram[];
   loading: boolean;
   loadingExamples: boolean;
   error: string | null;
+  pendingSyncIds: string[]; // Pictograms with offline changes not yet on the server
+  syncConflicts: OutboxConflict[];
 }
 
 export enum PictogramActionTypes {
@@ -21,6 +24,9 @@ export enum PictogramActionTypes {
   UPDATE_PICTOGRAM = 'UPDATE_PICTOGRAM',
   
   REORDER_PICTOGRAMS = 'REORDER_PICTOGRAMS',
+  REORDER_FAILURE = 'REORDER_FAILURE', // To rollback optimistic reorder
+  
+  SYNC_STATUS_CHANGED = 'SYNC_STATUS_CHANGED',
   
   GENERATE_EXAMPLES_START = 'GENERATE_EXAMPLES_START',
   GENERATE_EXAMPLES_SUCCESS = 'GENERATE_EXAMPLES_SUCCESS',
@@ -36,6 +42,8 @@ export type PictogramAction =
   | { type: PictogramActionTypes.DELETE_FAILURE; payload: Pictogram[] } // Rollback payload
   | { type: PictogramActionTypes.UPDATE_PICTOGRAM; payload: { id: string; updates: Partial<Pictogram> } }
   | { type: PictogramActionTypes.REORDER_PICTOGRAMS; payload: Pictogram[] }
+  | { type: PictogramActionTypes.REORDER_FAILURE; payload: Pictogram[] } // Rollback payload
+  | { type: PictogramActionTypes.SYNC_STATUS_CHANGED; payload: { pendingSyncIds: string[]; syncConflicts: OutboxConflict[] } }
   | { type: PictogramActionTypes.GENERATE_EXAMPLES_START }
   | { type: PictogramActionTypes.GENERATE_EXAMPLES_SUCCESS; payload: Pictogram[] }
   | { type: PictogramActionTypes.GENERATE_EXAMPLES_ERROR; payload: string };
\ No newline at end of file
@@ -0,0 +1,281 @@
+/**
+ * Generation Gateway
+ * Small Node server that keeps the Gemini key off the client. The frontend
+ * (GENERATION_PROVIDER=proxy) posts here instead of calling Gemini directly;
+ * the gateway applies per-address quotas, logs every request and forwards the call
+ * to the upstream provider (Gemini, or the offline stub for local development).
+ *
+ * Build and run with `npm run gateway`.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { GatewayError, GenerationProvider } from '../services/providers/types';
+import { VoiceSettings } from '../types';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { stubProvider } from '../services/providers/stubProvider';
+import { createAddressQuotaTracker, QuotaKind } from './quota';
+import { createRequestLogger } from './requestLog';
+import { VOCABULARY_PACK_SIZE } from '../constants';
+
+const PORT = Number(process.env.GATEWAY_PORT) || 8787;
+// The app's origin (the Vite dev server unless configured); other web pages can't call the gateway
+const ALLOWED_ORIGIN = process.env.GATEWAY_ALLOWED_ORIGIN || 'http://localhost:3000';
+// Behind a reverse proxy every request comes from the proxy: count quotas against the
+// address it appends to X-Forwarded-For instead. Without it, everyone shares the proxy's quota.
+const TRUST_PROXY = process.env.GATEWAY_TRUST_PROXY === '1';
+const MAX_BODY_BYTES = 10 * 1024 * 1024; // Reference photos arrive inline as data URLs
+
+// Every request costs one quota unit, so its size is bounded too
+const MAX_WORD_LENGTH = 60; // A pictogram word, or one word of a sentence
+const MAX_THEME_LENGTH = 100;
+const MAX_INSTRUCTION_LENGTH = 300;
+const MAX_SPEECH_TEXT_LENGTH = 500; // A whole sentence spoken at once
+const MAX_SENTENCE_WORDS = 30;
+const MAX_VOCABULARY_COUNT = VOCABULARY_PACK_SIZE * 2;
+
+// geminiService reads API_KEY, which the browser build gets through Vite's `define`
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+  process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+
+// Upstream provider: "gemini" needs GEMINI_API_KEY in the gateway's environment
+const upstream: GenerationProvider = process.env.GATEWAY_PROVIDER === 'gemini' || (!process.env.GATEWAY_PROVIDER && process.env.API_KEY)
+  ? geminiProvider
+  : stubProvider;
+
+// Limits per IP address and day, not per user: there is no sign-in, and X-User-Id is
+// chosen by the caller. Everyone behind one NAT (a school or clinic network) shares them.
+const addressQuotas = createAddressQuotaTracker({
+  image: Number(process.env.GATEWAY_QUOTA_IMAGE) || 100,
+  speech: Number(process.env.GATEWAY_QUOTA_SPEECH) || 300,
+  text: Number(process.env.GATEWAY_QUOTA_TEXT) || 200
+});
+
+const logRequest = createRequestLogger(process.env.GATEWAY_LOG_FILE);
+
+type Body = Record<string, unknown>;
+
+interface Route {
+  kind: QuotaKind;
+  // Validates the body (throwing a 400) and returns the upstream call, so bad requests cost no quota
+  prepare: (body: Body) => (signal: AbortSignal) => Promise<unknown>;
+}
+
+const requireString = (body: Body, field: string, maxLength?: number): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new GatewayError(`Missing "${field}"`, 400);
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    throw new GatewayError(`"${field}" is longer than ${maxLength} characters`, 400);
+  }
+  return value;
+};
+
+// Number of words for a vocabulary pack: the provider's default when missing, otherwise a whole number in range
+const optionalCount = (body: Body): number | undefined => {
+  if (body.count === undefined) return undefined;
+  const count = body.count;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_VOCABULARY_COUNT) {
+    throw new GatewayError(`"count" must be a whole number from 1 to ${MAX_VOCABULARY_COUNT}`, 400);
+  }
+  return count;
+};
+
+const optionalString = (body: Body, field: string): string | undefined =>
+  typeof body[field] === 'string' ? body[field] as string : undefined;
+
+// Voice settings are plain ids; anything malformed falls back to the provider's default voice
+const optionalVoice = (body: Body): VoiceSettings | undefined => {
+  const voice = body.voice;
+  if (!voice || typeof voice !== 'object') return undefined;
+  const fields = voice as Record<string, unknown>;
+  const isValid = ['voiceId', 'accent', 'style', 'rate'].every(field => typeof fields[field] === 'string');
+  return isValid ? fields as unknown as VoiceSettings : undefined;
+};
+
+const routes: Record<string, Route> = {
+  '/image': {
+    kind: 'image',
+    prepare: body => {
+      const word = requireString(body, 'word', MAX_WORD_LENGTH);
+      return async signal => ({
+        image: await upstream.image.generate(word, optionalString(body, 'styleId'), optionalString(body, 'referenceImage'), signal)
+      });
+    }
+  },
+  '/image/refine': {
+    kind: 'image',
+    prepare: body => {
+      const image = requireString(body, 'image');
+      const instruction = requireString(body, 'instruction', MAX_INSTRUCTION_LENGTH);
+      return async signal => ({
+        image: await upstream.image.refine(image, instruction, optionalString(body, 'styleId'), signal)
+      });
+    }
+  },
+  '/speech': {
+    kind: 'speech',
+    prepare: body => {
+      const text = requireString(body, 'text', MAX_SPEECH_TEXT_LENGTH);
+      return async signal => ({
+        audio: await upstream.speech.synthesize(text, optionalVoice(body), signal)
+      });
+    }
+  },
+  '/vocabulary': {
+    kind: 'text',
+    prepare: body => {
+      const theme = requireString(body, 'theme', MAX_THEME_LENGTH);
+      const count = optionalCount(body);
+      return async signal => ({
+        words: await upstream.text.proposeVocabulary(theme, count, signal)
+      });
+    }
+  },
+  '/sentence': {
+    kind: 'text',
+    prepare: body => {
+      const words = Array.isArray(body.words) ? body.words.filter((w): w is string => typeof w === 'string' && !!w.trim()) : [];
+      if (words.length === 0) throw new GatewayError('Missing "words"', 400);
+      if (words.length > MAX_SENTENCE_WORDS || words.some(w => w.length > MAX_WORD_LENGTH)) {
+        throw new GatewayError(`"words" must be at most ${MAX_SENTENCE_WORDS} words of up to ${MAX_WORD_LENGTH} characters`, 400);
+      }
+      return async signal => ({ sentence: await upstream.text.completeSentence(words, signal) });
+    }
+  }
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<{ body: Body; bytes: number }> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    req.on('data', (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes > MAX_BODY_BYTES) {
+        reject(new GatewayError('Request body too large', 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        resolve({ body: parsed && typeof parsed === 'object' ? parsed : {}, bytes });
+      } catch {
+        reject(new GatewayError('Invalid JSON body', 400));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+  if (res.writableEnded || res.destroyed) return;
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+/**
+ * Upstream rate limits are passed through as 429 so the client's queue backs off;
+ * any other provider failure is a 502.
+ */
+const toGatewayError = (error: unknown): GatewayError => {
+  if (error instanceof GatewayError) return error;
+  const status = (error as { status?: number })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429) return new GatewayError('Upstream rate limit', 429);
+  return new GatewayError(message || 'Upstream provider failed', 502);
+};
+
+/**
+ * Address the quota is counted against. Unlike X-User-Id (chosen freely by the
+ * caller), a client can't change it per request.
+ */
+const getClientAddress = (req: IncomingMessage): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwardedFor === 'string') {
+    // The last entry is the one our proxy added; earlier ones come from the client
+    const proxied = forwardedFor.split(',').pop()?.trim();
+    if (proxied) return proxied;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const startedAt = Date.now();
+  const path = (req.url || '/').split('?')[0].replace(/\/+$/, '') || '/';
+  const clientAddress = getClientAddress(req);
+  // X-User-Id only labels the log line; it plays no part in the quota
+  const userId = String(req.headers['x-user-id'] || 'anonymous').slice(0, 64);
+  let status = 200;
+  let bytesIn = 0;
+  let errorMessage: string | undefined;
+
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-User-Id');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  // Stop the upstream call if the client goes away (cancelled job, closed tab)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    if (req.method === 'OPTIONS') {
+      status = 204;
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { status: 'ok', provider: upstream.name });
+      return;
+    }
+
+    const route = routes[path];
+    if (!route) throw new GatewayError('Not found', 404);
+    if (req.method !== 'POST') throw new GatewayError('Method not allowed', 405);
+
+    const { body, bytes } = await readJsonBody(req);
+    bytesIn = bytes;
+    const run = route.prepare(body);
+
+    const quota = addressQuotas.consume(clientAddress, route.kind);
+    res.setHeader('X-Quota-Remaining', String(quota.remaining));
+    if (!quota.allowed) {
+      const retryAfter = Math.ceil((quota.resetAt - Date.now()) / 1000);
+      res.setHeader('Retry-After', String(retryAfter));
+      throw new GatewayError(`Daily ${route.kind} quota for this address exceeded`, 429, 'quota_exceeded');
+    }
+
+    sendJson(res, 200, await run(controller.signal));
+  } catch (error) {
+    const gatewayError = toGatewayError(error);
+    status = gatewayError.status;
+    errorMessage = gatewayError.message;
+    sendJson(res, status, { error: gatewayError.message, code: gatewayError.code });
+  } finally {
+    logRequest({
+      time: new Date(startedAt).toISOString(),
+      userId,
+      clientAddress,
+      method: req.method || 'GET',
+      path,
+      status: controller.signal.aborted ? 499 : status,
+      durationMs: Date.now() - startedAt,
+      provider: upstream.name,
+      bytesIn,
+      error: errorMessage
+    });
+  }
+};
+
+createServer((req, res) => {
+  handleRequest(req, res);
+}).listen(PORT, () => {
+  console.log(`[Gateway] Listening on http://localhost:${PORT} (${upstream.name} provider)`);
+});
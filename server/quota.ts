@@ -0,0 +1,47 @@
+/**
+ * Per-address daily quotas
+ * In-memory counters keyed by IP address and request kind; they reset at UTC midnight
+ * and on restart, which is enough for a single gateway instance.
+ */
+
+export type QuotaKind = 'image' | 'speech' | 'text';
+
+export type QuotaLimits = Record<QuotaKind, number>;
+
+export interface QuotaResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number; // Epoch ms when the counters start over
+}
+
+const nextUtcMidnight = (now: number): number => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+export const createAddressQuotaTracker = (limits: QuotaLimits) => {
+  let usage = new Map<string, number>();
+  let resetAt = nextUtcMidnight(Date.now());
+
+  /**
+   * Counts one request against the address's quota, unless it is already used up.
+   */
+  const consume = (address: string, kind: QuotaKind): QuotaResult => {
+    const now = Date.now();
+    if (now >= resetAt) {
+      usage = new Map();
+      resetAt = nextUtcMidnight(now);
+    }
+
+    const key = `${address}:${kind}`;
+    const used = usage.get(key) || 0;
+    if (used >= limits[kind]) {
+      return { allowed: false, remaining: 0, resetAt };
+    }
+
+    usage.set(key, used + 1);
+    return { allowed: true, remaining: limits[kind] - used - 1, resetAt };
+  };
+
+  return { consume };
+};
@@ -0,0 +1,30 @@
+/**
+ * Request logging
+ * One JSON line per request on stdout, and appended to GATEWAY_LOG_FILE when set.
+ * Prompts are not logged, only their size, so children's words stay out of the logs.
+ */
+
+import { appendFile } from 'fs';
+
+export interface RequestLogEntry {
+  time: string;
+  userId: string; // X-User-Id as sent by the client, a label only
+  clientAddress: string; // What the quota is counted against
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  provider: string;
+  bytesIn: number;
+  error?: string;
+}
+
+export const createRequestLogger = (logFile?: string) => (entry: RequestLogEntry) => {
+  const line = JSON.stringify(entry);
+  console.log(line);
+  if (logFile) {
+    appendFile(logFile, line + '\n', err => {
+      if (err) console.error('[Gateway] Failed to write request log', err);
+    });
+  }
+};
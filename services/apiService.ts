@@ -1,18 +1,54 @@
-import { Pictogram } from '../types';
+import { Pictogram, Board, SavedPhrase } from '../types';
 import { API_ENDPOINT } from '../constants';
+import { v4 as uuidv4 } from 'uuid';
 import {
   getCachedPictogramList,
   cachePictogramList,
   getCachedPictogram,
   cachePictogram,
   invalidatePictogramListCache,
-  invalidatePictogramCache
+  invalidatePictogramCache,
+  clearCache
 } from './cacheService';
+import {
+  OutboxMutation,
+  TEMP_ID_PREFIX,
+  isTempId,
+  enqueueMutation,
+  getPendingMutations,
+  hasPendingMutations,
+  removeMutation,
+  remapPictogramId,
+  recordConflict
+} from './outboxService';
+import { PictogramPosition } from './repositories/types';
 
 /**
- * Create a new pictogram
+ * Error carrying the HTTP status so callers can tell conflicts from outages
  */
-export const createPictogram = async (pictogram: Omit<Pictogram, 'id'>): Promise<Pictogram> => {
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// fetch() rejects with a TypeError when the request never reaches the server
+const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
+
+// While older mutations are still queued, newer ones must wait behind them to keep the order
+const shouldQueue = async (): Promise<boolean> => isOffline() || hasPendingMutations();
+
+// ============================================================================
+// Pictograms
+// ============================================================================
+
+const sendCreatePictogram = async (pictogram: Omit<Pictogram, 'id'>): Promise<Pictogram> => {
   const response = await fetch(`${API_ENDPOINT}/pictograms`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -20,7 +56,7 @@ export const createPictogram = async (pictogram: Omit<Pictogram, 'id'>): Promise
   });
   
   if (!response.ok) {
-    throw new Error(`Failed to create pictogram: ${response.statusText}`);
+    throw new ApiError(`Failed to create pictogram: ${response.statusText}`, response.status);
   }
   
   const newPictogram = await response.json();
@@ -28,7 +64,61 @@ export const createPictogram = async (pictogram: Omit<Pictogram, 'id'>): Promise
   // Invalidate list cache since we added a new item
   await invalidatePictogramListCache();
   
-  return newPictogram;
+  // Keep the fields we sent (e.g. category) if the backend only echoes part of the record
+  return { ...pictogram, ...newPictogram };
+};
+
+const sendUpdatePictogram = async (id: string, updates: Partial<Pictogram>): Promise<Pictogram> => {
+  const response = await fetch(`${API_ENDPOINT}/pictograms/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates)
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(`Failed to update pictogram: ${response.statusText}`, response.status);
+  }
+  
+  const updatedPictogram = await response.json();
+  
+  // Invalidate cache for this pictogram and the list
+  await invalidatePictogramCache(id);
+  
+  return { id, ...updates, ...updatedPictogram };
+};
+
+const sendDeletePictogram = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_ENDPOINT}/pictograms/${id}`, {
+    method: 'DELETE'
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(`Failed to delete pictogram: ${response.statusText}`, response.status);
+  }
+  
+  // Invalidate cache for this pictogram and the list
+  await invalidatePictogramCache(id);
+};
+
+/**
+ * Create a new pictogram.
+ * Offline, it is queued under a temporary id that is replaced once synced.
+ */
+export const createPictogram = async (pictogram: Omit<Pictogram, 'id'>): Promise<Pictogram> => {
+  const queue = async (): Promise<Pictogram> => {
+    const tempId = `${TEMP_ID_PREFIX}${uuidv4()}`;
+    await enqueueMutation({ type: 'create', pictogramId: tempId, payload: pictogram, queuedAt: Date.now() });
+    return { ...pictogram, id: tempId };
+  };
+
+  if (await shouldQueue()) return queue();
+
+  try {
+    return await sendCreatePictogram(pictogram);
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
 };
 
 /**
@@ -90,54 +180,312 @@ export const getPictogram = async (id: string): Promise<Pictogram> => {
 };
 
 /**
- * Update a pictogram (Note: Backend support required)
- * If backend doesn't support PUT/PATCH, this might need adjustment.
+ * Update a pictogram.
+ * Offline, the change is queued and the merged fields are returned right away.
  */
 export const updatePictogram = async (id: string, updates: Partial<Pictogram>): Promise<Pictogram> => {
-    // Assuming standard REST conventions. If your lambda doesn't support this yet,
-    // you might need to add the method to your API Gateway.
-    const response = await fetch(`${API_ENDPOINT}/pictograms/${id}`, {
-      method: 'PATCH', // or PUT
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updates)
-    });
-    
-    if (!response.ok) {
-      // Fallback for now: If API fails (e.g. 404/405), we just return the merged object 
-      // so the UI updates locally, but we throw a warning.
-      console.warn(`Backend update failed (${response.status}). Updating locally only.`);
-      // Invalidate cache anyway
-      await invalidatePictogramCache(id);
-      // throw new Error(`Failed to update pictogram: ${response.statusText}`);
-      return { id, ...updates } as Pictogram; 
-    }
-    
-    const updatedPictogram = await response.json();
-    
-    // Invalidate cache for this pictogram and the list
-    await invalidatePictogramCache(id);
-    
-    return updatedPictogram;
+  const queue = async (): Promise<Pictogram> => {
+    await enqueueMutation({ type: 'update', pictogramId: id, payload: updates, queuedAt: Date.now() });
+    return { id, ...updates } as Pictogram;
   };
 
+  if (await shouldQueue()) return queue();
+
+  try {
+    return await sendUpdatePictogram(id, updates);
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
+};
+
 /**
- * Delete a pictogram
+ * Delete a pictogram.
+ * Offline, the deletion is queued.
  */
 export const deletePictogram = async (id: string): Promise<void> => {
-  const response = await fetch(`${API_ENDPOINT}/pictograms/${id}`, {
+  const queue = () => enqueueMutation({ type: 'delete', pictogramId: id, queuedAt: Date.now() });
+
+  if (await shouldQueue()) return queue();
+
+  try {
+    await sendDeletePictogram(id);
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
+};
+
+// ============================================================================
+// Outbox replay
+// ============================================================================
+
+export interface OutboxSyncResult {
+  created: { tempId: string; pictogram: Pictogram }[]; // Pictograms that got their real id
+  conflicts: number;
+}
+
+// Mutations of a single pictogram (everything but a reorder)
+type PictogramMutation = Exclude<OutboxMutation, { type: 'reorder' }>;
+
+const describeConflict = (mutation: OutboxMutation, status: number): string => {
+  if (mutation.type === 'reorder') {
+    return `El servidor rechazó el orden guardado sin conexión (${status}).`;
+  }
+  if (status === 404) {
+    return 'El pictograma ya no existe en el servidor; el cambio sin conexión no se aplicó.';
+  }
+  if (status === 409 || status === 412) {
+    return 'El pictograma cambió en otro dispositivo mientras estabas sin conexión.';
+  }
+  const action = mutation.type === 'create' ? 'crear' : mutation.type === 'update' ? 'actualizar' : 'borrar';
+  return `El servidor rechazó ${action} el pictograma (${status}).`;
+};
+
+/**
+ * A rejected create with the queued edits of the same pictogram applied, so the
+ * conflict keeps the latest version of what was made offline.
+ */
+const foldLaterEdits = (create: PictogramMutation, pending: OutboxMutation[]): PictogramMutation => {
+  if (create.type !== 'create') return create;
+  const payload = pending
+    .filter((m): m is Extract<OutboxMutation, { type: 'update' }> => m.type === 'update' && m.pictogramId === create.pictogramId)
+    .reduce((merged, m) => ({ ...merged, ...m.payload }), create.payload);
+  return { ...create, payload };
+};
+
+const replayOutbox = async (): Promise<OutboxSyncResult> => {
+  const result: OutboxSyncResult = { created: [], conflicts: 0 };
+  const pending = await getPendingMutations();
+  const idMap = new Map<string, string>();
+
+  for (const mutation of pending) {
+    if (isOffline()) break;
+
+    // Pictograms created earlier in this replay are known to the API by their new id
+    const serverId = (id: string) => idMap.get(id) ?? id;
+    const pictogramId = mutation.type === 'reorder' ? undefined : serverId(mutation.pictogramId);
+
+    // Still a local id after its create: the server refused the create, and the edit
+    // was folded into that conflict. The API has never seen this id.
+    if (pictogramId && mutation.type !== 'create' && isTempId(pictogramId)) {
+      await removeMutation(mutation.seq!);
+      continue;
+    }
+
+    try {
+      if (mutation.type === 'create') {
+        const created = await sendCreatePictogram(mutation.payload);
+        idMap.set(mutation.pictogramId, created.id);
+        await remapPictogramId(mutation.pictogramId, created.id);
+        result.created.push({ tempId: mutation.pictogramId, pictogram: created });
+      } else if (mutation.type === 'update') {
+        await sendUpdatePictogram(pictogramId!, mutation.payload);
+      } else if (mutation.type === 'delete') {
+        await sendDeletePictogram(pictogramId!);
+      } else {
+        // Pictograms whose create was refused never reached the API: order the rest
+        const positions = mutation.positions
+          .map(p => ({ ...p, id: serverId(p.id) }))
+          .filter(p => !isTempId(p.id));
+        if (positions.length > 0) await sendPictogramPositions(positions);
+      }
+      await removeMutation(mutation.seq!);
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 0;
+
+      // Deleting something that is already gone is not a conflict
+      if (mutation.type === 'delete' && status === 404) {
+        await removeMutation(mutation.seq!);
+        continue;
+      }
+
+      // Client errors won't succeed on retry: report them and move on
+      if (status >= 400 && status < 500 && status !== 408 && status !== 429) {
+        await recordConflict({
+          mutation: mutation.type === 'reorder' ? mutation : { ...foldLaterEdits(mutation, pending), pictogramId: pictogramId! },
+          status,
+          reason: describeConflict(mutation, status),
+          detectedAt: Date.now()
+        });
+        await removeMutation(mutation.seq!);
+        result.conflicts++;
+        continue;
+      }
+
+      // Network or server trouble: stop here so later mutations keep their order
+      console.warn('[API] Outbox replay paused:', error);
+      break;
+    }
+  }
+
+  return result;
+};
+
+let activeSync: Promise<OutboxSyncResult> | null = null;
+
+/**
+ * Replay queued offline mutations in order (one replay at a time)
+ */
+export const syncOutbox = (): Promise<OutboxSyncResult> => {
+  if (!activeSync) {
+    activeSync = replayOutbox().finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+};
+
+const sendPictogramPositions = async (positions: PictogramPosition[]): Promise<void> => {
+  const response = await fetch(`${API_ENDPOINT}/pictograms/order`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ positions })
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(`Failed to reorder pictograms: ${response.statusText}`, response.status);
+  }
+  
+  // Every cached record may carry a stale position
+  await clearCache();
+};
+
+/**
+ * Persist the grid order of several pictograms in one request.
+ * Offline, or behind queued changes (e.g. creates whose ids are still local),
+ * the order is queued and replayed after them.
+ */
+export const updatePictogramPositions = async (positions: PictogramPosition[]): Promise<void> => {
+  const queue = () => enqueueMutation({ type: 'reorder', positions, queuedAt: Date.now() });
+
+  if (await shouldQueue()) return queue();
+
+  try {
+    await sendPictogramPositions(positions);
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
+};
+
+// ============================================================================
+// Boards
+// ============================================================================
+
+/**
+ * List all boards
+ */
+export const listBoards = async (): Promise<Board[]> => {
+  const response = await fetch(`${API_ENDPOINT}/boards`);
+  
+  if (!response.ok) {
+    throw new Error(`Failed to list boards: ${response.statusText}`);
+  }
+  
+  return response.json();
+};
+
+/**
+ * Create a new board
+ */
+export const createBoard = async (board: Omit<Board, 'id'>): Promise<Board> => {
+  const response = await fetch(`${API_ENDPOINT}/boards`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(board)
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to create board: ${response.statusText}`);
+  }
+  
+  const newBoard = await response.json();
+  return { ...board, ...newBoard };
+};
+
+/**
+ * Update a board (name and/or ordered pictogram references)
+ */
+export const updateBoard = async (id: string, updates: Partial<Omit<Board, 'id'>>): Promise<Board> => {
+  const response = await fetch(`${API_ENDPOINT}/boards/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates)
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to update board: ${response.statusText}`);
+  }
+  
+  const updatedBoard = await response.json();
+  return { id, ...updates, ...updatedBoard };
+};
+
+/**
+ * Delete a board (pictograms it references are kept)
+ */
+export const deleteBoard = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_ENDPOINT}/boards/${id}`, {
     method: 'DELETE'
   });
   
   if (!response.ok) {
-    throw new Error(`Failed to delete pictogram: ${response.statusText}`);
+    throw new Error(`Failed to delete board: ${response.statusText}`);
   }
+};
+
+// ============================================================================
+// Saved phrases
+// ============================================================================
+
+/**
+ * List the sentence history and pinned phrases
+ */
+export const listPhrases = async (): Promise<SavedPhrase[]> => {
+  const response = await fetch(`${API_ENDPOINT}/phrases`);
   
-  // Invalidate cache for this pictogram and the list
-  await invalidatePictogramCache(id);
+  if (!response.ok) {
+    throw new ApiError(`Failed to list phrases: ${response.statusText}`, response.status);
+  }
+  
+  return response.json();
+};
+
+/**
+ * Create or replace a phrase (the id comes from the device)
+ */
+export const savePhrase = async (phrase: SavedPhrase): Promise<SavedPhrase> => {
+  const response = await fetch(`${API_ENDPOINT}/phrases/${phrase.id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(phrase)
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(`Failed to save phrase: ${response.statusText}`, response.status);
+  }
+  
+  const savedPhrase = await response.json();
+  return { ...phrase, ...savedPhrase };
+};
+
+/**
+ * Delete a phrase
+ */
+export const deletePhrase = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_ENDPOINT}/phrases/${id}`, {
+    method: 'DELETE'
+  });
+  
+  // Already gone is as good as deleted
+  if (!response.ok && response.status !== 404) {
+    throw new ApiError(`Failed to delete phrase: ${response.statusText}`, response.status);
+  }
 };
 
 /**
- * Get presigned S3 URL for uploading an image
+ * Get presigned S3 URL for uploading a file (image or audio)
  */
 export const getUploadUrl = async (filename: string, contentType: string = 'image/png'): Promise<{
   uploadUrl: string;
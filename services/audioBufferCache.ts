@@ -0,0 +1,53 @@
+/**
+ * Decoded Audio Cache
+ * Decoding a clip (Base64 → bytes → AudioBuffer) is slow on low-end tablets, so
+ * decoded buffers are kept in memory and the least recently used are evicted first.
+ * Keys combine the pictogram id with a hash of its audio, so a new recording or
+ * a regenerated voice can never play a stale buffer.
+ */
+
+import { DECODED_AUDIO_CACHE_MAX_ENTRIES } from '../constants';
+
+// Map iteration follows insertion order: the first key is the least recently used
+const buffers = new Map<string, AudioBuffer>();
+
+// FNV-1a; inline audio is far too long to be a key
+const hashAudio = (source: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// `source` is the audio URL, or the Base64 audio itself for legacy records
+export const clipKey = (clipId: string, source: string) =>
+  `${clipId}:${source.length}:${hashAudio(source)}`;
+
+export const getCachedBuffer = (key: string): AudioBuffer | undefined => {
+  const buffer = buffers.get(key);
+  if (buffer) {
+    // Re-inserting marks it as the most recently used
+    buffers.delete(key);
+    buffers.set(key, buffer);
+  }
+  return buffer;
+};
+
+export const cacheBuffer = (key: string, buffer: AudioBuffer) => {
+  buffers.delete(key);
+  buffers.set(key, buffer);
+  while (buffers.size > DECODED_AUDIO_CACHE_MAX_ENTRIES) {
+    buffers.delete(buffers.keys().next().value!);
+  }
+};
+
+/**
+ * Drop every decoded version of a pictogram's audio (its audio changed or it was deleted).
+ */
+export const forgetDecodedClip = (clipId: string) => {
+  for (const key of [...buffers.keys()]) {
+    if (key.startsWith(`${clipId}:`)) buffers.delete(key);
+  }
+};
@@ -0,0 +1,67 @@
+/**
+ * Audio Migration
+ * Older pictograms carry their audio inline (`audioBase64`), and clips saved while
+ * S3 was unreachable carry it as a data URL in `audioUrl`. Both bloat every list
+ * download, so they are processed like new clips (WAV, trimmed, normalized), uploaded
+ * as files and the record is switched to the file URL, one pictogram at a time in
+ * the background.
+ */
+
+import { AudioMetadata, Pictogram } from '../types';
+import { storage } from './repositories';
+import { TEMP_ID_PREFIX } from './outboxService';
+import { audioFileName, describeAudio, processClip } from './audioProcessing';
+
+export interface MigratedAudio {
+  id: string;
+  audioUrl: string;
+  audioFormat: AudioMetadata;
+}
+
+const isDataUrl = (url?: string): boolean => !!url?.startsWith('data:');
+
+// On the local backend a data URL already is the stored file
+const needsMigration = (pictogram: Pictogram): boolean =>
+  !pictogram.id.startsWith(TEMP_ID_PREFIX) &&
+  (!!pictogram.audioBase64 || (storage.name === 'http' && isDataUrl(pictogram.audioUrl)));
+
+let activeMigration: Promise<MigratedAudio[]> | null = null;
+
+const migrate = async (pictograms: Pictogram[]): Promise<MigratedAudio[]> => {
+  const migrated: MigratedAudio[] = [];
+
+  for (const pictogram of pictograms.filter(needsMigration)) {
+    if (!navigator.onLine) break;
+
+    try {
+      const clip = await processClip(pictogram.audioBase64 || pictogram.audioUrl!);
+      const audioUrl = await storage.pictograms.uploadAudio(clip, audioFileName(`audio-${pictogram.id}`, clip));
+      // The upload fell back to inline audio: S3 is unreachable, try again next load
+      if (storage.name === 'http' && isDataUrl(audioUrl)) break;
+
+      const audioFormat = describeAudio(clip);
+      await storage.pictograms.update(pictogram.id, { audioUrl, audioFormat, audioBase64: null });
+      migrated.push({ id: pictogram.id, audioUrl, audioFormat });
+    } catch (error) {
+      console.warn('[Migration] Could not migrate audio for', pictogram.word, error);
+    }
+  }
+
+  if (migrated.length > 0) {
+    console.log(`[Migration] Moved audio of ${migrated.length} pictogram(s) to files`);
+  }
+  return migrated;
+};
+
+/**
+ * Upload inline audio as files (one run at a time). Resolves with the pictograms
+ * that now point to a file; the rest are retried on a later run.
+ */
+export const migrateInlineAudio = (pictograms: Pictogram[]): Promise<MigratedAudio[]> => {
+  if (!activeMigration) {
+    activeMigration = migrate(pictograms).finally(() => {
+      activeMigration = null;
+    });
+  }
+  return activeMigration;
+};
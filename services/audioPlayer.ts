@@ -0,0 +1,278 @@
+/**
+ * Audio Playback Engine
+ * Every clip in the app plays through here: one shared AudioContext with a
+ * master volume, a queue so clips never talk over each other, promises that
+ * resolve when the audio actually ends, and a stop that cancels everything.
+ */
+
+import { AudioMetadata } from '../types';
+import { cacheBuffer, clipKey, getCachedBuffer } from './audioBufferCache';
+import { PCM_CONTENT_TYPE, PCM_SAMPLE_RATE } from './audioProcessing';
+
+export interface PlaybackSettings {
+  volume: number; // 0..1
+  rate: number; // 1 = normal speed (changes pitch too, like a record player)
+  wordPauseMs: number; // Silence between clips of a sequence
+}
+
+// A pictogram's audio (file URL or legacy inline Base64). With an id it is decoded once and cached.
+export interface ClipSource {
+  audioUrl?: string;
+  audioBase64?: string | null;
+  audioFormat?: AudioMetadata;
+  id?: string;
+}
+
+interface SequenceOptions {
+  onClipStart?: (index: number) => void;
+}
+
+let settings: PlaybackSettings = { volume: 1, rate: 1, wordPauseMs: 400 };
+
+let audioContext: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+let currentSource: AudioBufferSourceNode | null = null;
+let queueTail: Promise<unknown> = Promise.resolve();
+let stopCount = 0; // Bumped by stopPlayback(); queued work from before a stop is dropped
+let pauseTimer: { id: number; resolve: () => void } | null = null;
+const decoding = new Map<string, Promise<AudioBuffer>>(); // Cache key → decode in flight
+
+const getContext = (): { ctx: AudioContext; gain: GainNode } => {
+  if (!audioContext || !masterGain) {
+    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PCM_SAMPLE_RATE });
+    masterGain = audioContext.createGain();
+    masterGain.gain.value = settings.volume;
+    masterGain.connect(audioContext.destination);
+  }
+  return { ctx: audioContext, gain: masterGain };
+};
+
+/**
+ * Update volume, speed or pacing. Applies to the clip playing now where possible.
+ */
+export const configurePlayback = (updates: Partial<PlaybackSettings>) => {
+  settings = { ...settings, ...updates };
+  if (masterGain) masterGain.gain.value = settings.volume;
+  if (currentSource) currentSource.playbackRate.value = settings.rate;
+};
+
+/**
+ * Decodes a Base64 string into a Uint8Array of bytes.
+ */
+const decodeBase64 = (base64: string): Uint8Array => {
+  // If it contains a data URI prefix (common in recordings), strip it
+  const cleanBase64 = base64.includes(',') ? base64.split(',')[1] : base64;
+
+  const binaryString = atob(cleanBase64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Manually decodes raw PCM data (16-bit Little Endian) into an AudioBuffer.
+ * Used for Gemini API responses.
+ */
+const decodeAudioDataPCM = (
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+  numChannels: number,
+): AudioBuffer => {
+  const byteLength = data.length % 2 === 0 ? data.length : data.length - 1;
+  const bufferView = data.buffer.slice(data.byteOffset, data.byteOffset + byteLength);
+  const dataInt16 = new Int16Array(bufferView);
+
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Decodes the bytes as the format says. Without format metadata (older records)
+ * it tries a browser-compatible container first and falls back to raw PCM (Gemini).
+ */
+const decodeBytes = async (bytes: Uint8Array, format?: AudioMetadata): Promise<AudioBuffer> => {
+  const { ctx } = getContext();
+  if (format?.contentType === PCM_CONTENT_TYPE) {
+    return decodeAudioDataPCM(bytes, ctx, format.sampleRate || PCM_SAMPLE_RATE, format.channels || 1);
+  }
+  if (format) {
+    return ctx.decodeAudioData(bytes.buffer.slice(0) as ArrayBuffer);
+  }
+  try {
+    return await ctx.decodeAudioData(bytes.buffer.slice(0) as ArrayBuffer);
+  } catch (standardDecodeError) {
+    return decodeAudioDataPCM(bytes, ctx, PCM_SAMPLE_RATE, 1);
+  }
+};
+
+/**
+ * Decodes a clip given as raw Base64 (or a data URL).
+ */
+export const decodeClip = (base64Audio: string, format?: AudioMetadata): Promise<AudioBuffer> =>
+  decodeBytes(decodeBase64(base64Audio), format);
+
+/**
+ * Downloads and decodes an audio file. Offline, the service worker answers
+ * from its audio cache.
+ */
+const decodeUrl = async (audioUrl: string, format?: AudioMetadata): Promise<AudioBuffer> => {
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download audio: ${response.statusText}`);
+  }
+  return decodeBytes(new Uint8Array(await response.arrayBuffer()), format);
+};
+
+const decodeSource = (clip: ClipSource): Promise<AudioBuffer> => {
+  if (clip.audioUrl) return decodeUrl(clip.audioUrl, clip.audioFormat);
+  if (clip.audioBase64) return decodeClip(clip.audioBase64, clip.audioFormat);
+  return Promise.reject(new Error('Clip has no audio'));
+};
+
+/**
+ * Decoded buffer for a clip: from the cache when it has an id and was decoded
+ * before, otherwise decoded now (once, even if asked for twice meanwhile).
+ */
+const loadClip = (clip: ClipSource): Promise<AudioBuffer> => {
+  const source = clip.audioUrl || clip.audioBase64;
+  if (!clip.id || !source) return decodeSource(clip);
+
+  const key = clipKey(clip.id, source);
+  const cached = getCachedBuffer(key);
+  if (cached) return Promise.resolve(cached);
+
+  let pending = decoding.get(key);
+  if (!pending) {
+    pending = decodeSource(clip)
+      .then(buffer => {
+        cacheBuffer(key, buffer);
+        return buffer;
+      })
+      .finally(() => decoding.delete(key));
+    decoding.set(key, pending);
+  }
+  return pending;
+};
+
+/**
+ * Decode a clip ahead of time so playing it later starts instantly.
+ */
+export const preloadClip = async (clip: ClipSource): Promise<void> => {
+  await loadClip(clip);
+};
+
+/**
+ * Plays one decoded buffer; resolves true when it ends, false if stopped.
+ */
+const playBuffer = (buffer: AudioBuffer): Promise<boolean> => {
+  const { ctx, gain } = getContext();
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = settings.rate;
+  source.connect(gain);
+
+  return new Promise(resolve => {
+    const stopsAtStart = stopCount;
+    source.onended = () => {
+      if (currentSource === source) currentSource = null;
+      source.disconnect();
+      resolve(stopCount === stopsAtStart);
+    };
+    currentSource = source;
+    source.start(0);
+  });
+};
+
+// Silence between clips that stopPlayback() can cut short
+const pause = (ms: number): Promise<void> =>
+  new Promise(resolve => {
+    if (ms <= 0) return resolve();
+    const id = window.setTimeout(() => {
+      pauseTimer = null;
+      resolve();
+    }, ms);
+    pauseTimer = { id, resolve };
+  });
+
+/**
+ * Runs playback work after everything queued before it. Work queued before
+ * a stopPlayback() call is skipped and resolves false.
+ */
+const enqueue = (work: (isCurrent: () => boolean) => Promise<boolean>): Promise<boolean> => {
+  const stopsAtEnqueue = stopCount;
+  const isCurrent = () => stopCount === stopsAtEnqueue;
+
+  const run = queueTail.then(async () => {
+    if (!isCurrent()) return false;
+    const { ctx } = getContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    return work(isCurrent);
+  });
+  queueTail = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Plays a clip (e.g. a pictogram) after anything already playing.
+ * Resolves true once the audio has actually finished, false if it was stopped.
+ */
+export const playClip = (clip: ClipSource): Promise<boolean> =>
+  enqueue(async isCurrent => {
+    const buffer = await loadClip(clip);
+    return isCurrent() && playBuffer(buffer);
+  });
+
+/**
+ * Plays raw Base64 audio (previews, phrases) after anything already playing.
+ */
+export const playAudio = (base64Audio: string): Promise<boolean> => playClip({ audioBase64: base64Audio });
+
+/**
+ * Plays clips back to back with the configured pause between them, as one
+ * queue entry so nothing slips in between words.
+ * Resolves true when the last clip ends, false if stopped midway.
+ */
+export const playSequence = (clips: ClipSource[], options: SequenceOptions = {}): Promise<boolean> =>
+  enqueue(async isCurrent => {
+    // Decode everything first so the pacing isn't affected by decode time
+    const buffers = await Promise.all(clips.map(loadClip));
+    for (let i = 0; i < buffers.length; i++) {
+      if (!isCurrent()) return false;
+      if (i > 0) await pause(settings.wordPauseMs);
+      if (!isCurrent()) return false;
+      options.onClipStart?.(i);
+      if (!await playBuffer(buffers[i])) return false;
+    }
+    return true;
+  });
+
+/**
+ * Stops the clip playing now and drops everything queued.
+ */
+export const stopPlayback = () => {
+  stopCount++;
+  if (pauseTimer) {
+    window.clearTimeout(pauseTimer.id);
+    pauseTimer.resolve();
+    pauseTimer = null;
+  }
+  if (currentSource) {
+    try {
+      currentSource.stop();
+    } catch (error) {
+      // Already stopped
+    }
+  }
+};
@@ -0,0 +1,241 @@
+/**
+ * Audio Processing Helpers
+ * Post-processing for clips before they are stored on a pictogram: recordings and
+ * speech-model output both end up as trimmed, loudness-normalized mono WAV, so
+ * every card sounds alike and players never have to guess the format.
+ */
+
+import { AudioMetadata } from '../types';
+
+export const PCM_SAMPLE_RATE = 24000; // Gemini TTS returns raw 16-bit mono PCM at 24 kHz
+export const PCM_CONTENT_TYPE = 'audio/L16'; // Headerless 16-bit PCM (legacy clips)
+
+const SILENCE_THRESHOLD = 0.02; // Peak amplitude (0..1) considered silence
+const SILENCE_PADDING_SECONDS = 0.08; // Keep a little air around the word
+
+// Loudness: bring every clip to the same RMS without clipping or blowing up noise
+const TARGET_RMS = 0.1; // About -20 dBFS
+const PEAK_CEILING = 0.89; // About -1 dBFS
+const MAX_GAIN = 8;
+
+let decodeContext: AudioContext | null = null;
+
+const getDecodeContext = (): AudioContext => {
+  if (!decodeContext) {
+    decodeContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  return decodeContext;
+};
+
+/**
+ * Mixes every channel down to a single mono Float32Array.
+ */
+const toMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0).slice();
+  }
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Removes leading and trailing silence from mono samples.
+ * Returns the original samples if everything is below the threshold.
+ */
+export const trimSilence = (
+  samples: Float32Array,
+  sampleRate: number,
+  threshold: number = SILENCE_THRESHOLD
+): Float32Array => {
+  let start = 0;
+  while (start < samples.length && Math.abs(samples[start]) < threshold) start++;
+
+  let end = samples.length - 1;
+  while (end > start && Math.abs(samples[end]) < threshold) end--;
+
+  if (start >= end) return samples;
+
+  const padding = Math.floor(SILENCE_PADDING_SECONDS * sampleRate);
+  return samples.slice(Math.max(0, start - padding), Math.min(samples.length, end + padding + 1));
+};
+
+/**
+ * Scales mono samples so their RMS reaches TARGET_RMS, limited so the peak stays
+ * under PEAK_CEILING and quiet noise is not amplified without bound.
+ */
+export const normalizeLoudness = (samples: Float32Array): Float32Array => {
+  let sumOfSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumOfSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak === 0) return samples;
+
+  const rms = Math.sqrt(sumOfSquares / samples.length);
+  const gain = Math.min(TARGET_RMS / rms, PEAK_CEILING / peak, MAX_GAIN);
+  return samples.map(sample => sample * gain);
+};
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV file.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true); // Byte rate
+  view.setUint16(32, bytesPerSample, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * bytesPerSample, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  }
+
+  return buffer;
+};
+
+export interface AudioFormat {
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Identifies a stored clip (raw Base64) by its first bytes. Anything that isn't a
+ * known container is the raw PCM the speech model returns.
+ */
+export const detectAudioFormat = (base64Audio: string): AudioFormat => {
+  const clean = base64Audio.includes(',') ? base64Audio.split(',')[1] : base64Audio;
+  const header = atob(clean.slice(0, 16));
+  if (header.startsWith('RIFF')) return { contentType: 'audio/wav', extension: 'wav' };
+  if (header.startsWith('OggS')) return { contentType: 'audio/ogg', extension: 'ogg' };
+  if (header.startsWith('\x1a\x45\xdf\xa3')) return { contentType: 'audio/webm', extension: 'webm' };
+  if (header.slice(4, 8) === 'ftyp') return { contentType: 'audio/mp4', extension: 'm4a' };
+  return { contentType: PCM_CONTENT_TYPE, extension: 'pcm' };
+};
+
+/**
+ * File name for a clip: `stem` plus the extension of its format.
+ */
+export const audioFileName = (stem: string, base64Audio: string): string =>
+  `${stem}.${detectAudioFormat(base64Audio).extension}`;
+
+const stripDataUrl = (base64: string) => (base64.includes(',') ? base64.split(',')[1] : base64);
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(stripDataUrl(base64));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/**
+ * Reads headerless 16-bit little-endian mono PCM as float samples.
+ */
+const pcmToSamples = (bytes: Uint8Array): Float32Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768;
+  }
+  return samples;
+};
+
+// Trim, level and wrap: the last step for every clip
+const finishClip = (samples: Float32Array, sampleRate: number): ArrayBuffer =>
+  encodeWav(normalizeLoudness(trimSilence(samples, sampleRate)), sampleRate);
+
+/**
+ * Turns speech-model output (headerless 24 kHz PCM, raw Base64) into a trimmed,
+ * normalized WAV (raw Base64). Clips that already have a container are returned as they are.
+ * Needs no AudioContext, so it also runs on the generation gateway.
+ */
+export const processSpeech = (base64Audio: string): string => {
+  if (detectAudioFormat(base64Audio).contentType !== PCM_CONTENT_TYPE) return base64Audio;
+  const samples = pcmToSamples(base64ToBytes(base64Audio));
+  return bytesToBase64(new Uint8Array(finishClip(samples, PCM_SAMPLE_RATE)));
+};
+
+/**
+ * Same treatment for a stored clip of any format (e.g. legacy inline audio).
+ * Falls back to the original clip if the browser can't decode it.
+ */
+export const processClip = async (base64Audio: string): Promise<string> => {
+  if (detectAudioFormat(base64Audio).contentType === PCM_CONTENT_TYPE) return processSpeech(base64Audio);
+  try {
+    const bytes = base64ToBytes(base64Audio);
+    const audioBuffer = await getDecodeContext().decodeAudioData(bytes.buffer.slice(0) as ArrayBuffer);
+    return bytesToBase64(new Uint8Array(finishClip(toMono(audioBuffer), audioBuffer.sampleRate)));
+  } catch (error) {
+    console.warn('[Audio] Could not process clip, keeping original:', error);
+    return stripDataUrl(base64Audio);
+  }
+};
+
+/**
+ * Format metadata to store next to a clip. WAV headers are read for the details;
+ * other containers only get their content type.
+ */
+export const describeAudio = (base64Audio: string): AudioMetadata => {
+  const { contentType } = detectAudioFormat(base64Audio);
+  if (contentType === PCM_CONTENT_TYPE) {
+    return { contentType, sampleRate: PCM_SAMPLE_RATE, channels: 1 };
+  }
+  if (contentType !== 'audio/wav') return { contentType };
+
+  const bytes = base64ToBytes(base64Audio);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunkId = (offset: number) => String.fromCharCode(...bytes.slice(offset, offset + 4));
+  if (bytes.length < 44 || chunkId(12) !== 'fmt ') return { contentType };
+
+  const channels = view.getUint16(22, true);
+  const sampleRate = view.getUint32(24, true);
+  const byteRate = view.getUint32(28, true);
+  // Only the canonical layout (data right after fmt, as encodeWav writes it) gives the duration cheaply
+  const durationMs = chunkId(36) === 'data' ? Math.round((view.getUint32(40, true) / byteRate) * 1000) : undefined;
+  return { contentType, sampleRate, channels, durationMs };
+};
+
+/**
+ * Turns a MediaRecorder blob (WebM/Ogg/MP4) into a trimmed, normalized mono WAV blob.
+ * Falls back to the original blob if the browser can't decode it.
+ */
+export const processRecording = async (blob: Blob): Promise<Blob> => {
+  try {
+    const ctx = getDecodeContext();
+    const audioBuffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    return new Blob([finishClip(toMono(audioBuffer), audioBuffer.sampleRate)], { type: 'audio/wav' });
+  } catch (error) {
+    console.warn('[Audio] Could not process recording, keeping original:', error);
+    return blob;
+  }
+};
@@ -0,0 +1,129 @@
+/**
+ * Bulk Import Parsing
+ * Turns a pasted word list or a CSV (word, category, voice) into rows for bulk generation.
+ */
+
+import { PictogramCategory } from '../types';
+import { CATEGORY_OPTIONS, BULK_MAX_ROWS, VOICE_OPTIONS } from '../constants';
+
+export interface BulkRow {
+  word: string;
+  category?: PictogramCategory;
+  voiceId?: string;
+}
+
+export interface BulkParseResult {
+  rows: BulkRow[];
+  skipped: number; // Duplicates and rows over BULK_MAX_ROWS
+}
+
+const WORD_HEADERS = ['word', 'palabra'];
+const CATEGORY_HEADERS = ['category', 'categoria'];
+const VOICE_HEADERS = ['voice', 'voz'];
+
+// Case and accent insensitive comparison ("Categoría" == "categoria")
+const normalize = (value: string) =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Splits one CSV line, honoring double quotes. Spreadsheets in Spanish locales
+ * export with ";" so the delimiter is passed in.
+ */
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(cell => cell.trim());
+};
+
+const resolveCategory = (value?: string): PictogramCategory | undefined => {
+  if (!value) return undefined;
+  const key = normalize(value);
+  const option = CATEGORY_OPTIONS.find(o => normalize(o.id) === key || normalize(o.label) === key);
+  return option?.id as PictogramCategory | undefined;
+};
+
+// "Mujer" / "Hombre" (the labels before the voice catalogue) pick the first voice of that gender
+const GENDER_LABELS: Record<string, 'female' | 'male'> = { mujer: 'female', hombre: 'male' };
+
+const resolveVoice = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const key = normalize(value);
+  const gender = GENDER_LABELS[key];
+  return VOICE_OPTIONS.find(v => normalize(v.id) === key || v.gender === gender)?.id;
+};
+
+/**
+ * Parses pasted text or a CSV file's contents.
+ * - One word per line, or a single line of comma separated words.
+ * - CSV with an optional header row (word/palabra, category/categoría, voice/voz);
+ *   without a header the columns are taken in that order.
+ * Categories accept either their id or their Spanish label; voices their name or "mujer"/"hombre".
+ */
+export const parseBulkInput = (text: string): BulkParseResult => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length === 0) return { rows: [], skipped: 0 };
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  let records: string[][];
+
+  if (lines.length === 1) {
+    // "perro, gato, casa"
+    records = splitCsvLine(lines[0], delimiter).map(word => [word]);
+  } else {
+    records = lines.map(line => splitCsvLine(line, delimiter));
+  }
+
+  let columns = { word: 0, category: 1, voice: 2 };
+  const header = records[0].map(normalize);
+  if (header.some(cell => WORD_HEADERS.includes(cell))) {
+    columns = {
+      word: header.findIndex(cell => WORD_HEADERS.includes(cell)),
+      category: header.findIndex(cell => CATEGORY_HEADERS.includes(cell)),
+      voice: header.findIndex(cell => VOICE_HEADERS.includes(cell))
+    };
+    records = records.slice(1);
+  }
+
+  const seen = new Set<string>();
+  const rows: BulkRow[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    const word = record[columns.word]?.trim();
+    if (!word) continue;
+
+    const key = normalize(word);
+    if (seen.has(key) || rows.length >= BULK_MAX_ROWS) {
+      skipped++;
+      continue;
+    }
+    seen.add(key);
+
+    rows.push({
+      word,
+      category: columns.category >= 0 ? resolveCategory(record[columns.category]) : undefined,
+      voiceId: columns.voice >= 0 ? resolveVoice(record[columns.voice]) : undefined
+    });
+  }
+
+  return { rows, skipped };
+};
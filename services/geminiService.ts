@@ -1,33 +1,58 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { GEMINI_IMAGE_MODEL, GEMINI_TTS_MODEL, IMAGE_PROMPT_SUFFIX } from "../constants";
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import {
+  GEMINI_IMAGE_MODEL, GEMINI_TTS_MODEL, GEMINI_TEXT_MODEL, CATEGORY_OPTIONS, VOCABULARY_PACK_SIZE, getStylePreset,
+  ACCENT_OPTIONS, VOICE_STYLE_OPTIONS, SPEAKING_RATE_OPTIONS, DEFAULT_VOICE, getVoiceVariant
+} from "../constants";
+import { PictogramCategory, VocabularyWord, VoiceSettings } from "../types";
 
-// NOTE: In a production app, API keys should not be exposed on the client.
-// They should be behind a proxy or serverless function.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// NOTE: Used directly only with GENERATION_PROVIDER=gemini, which bundles the key.
+// Production builds should use the generation gateway (server/gateway.ts) instead.
+let client: GoogleGenAI | null = null;
 
-export const VOICE_OPTIONS = [
-  { id: 'Zephyr', label: 'Mujer', gender: 'female' },
-  { id: 'Puck', label: 'Hombre', gender: 'male' }
-];
+/**
+ * Created on first use so the app (and the stub provider) works without a key.
+ */
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    if (!process.env.API_KEY) {
+      throw new Error("Falta GEMINI_API_KEY. Configúrala o usa GENERATION_PROVIDER=stub.");
+    }
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+/**
+ * Splits a data URL into the inlineData shape Gemini expects.
+ */
+const toInlineData = (imageDataUrl: string) => {
+  const [header, data] = imageDataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] || 'image/png';
+  return { mimeType, data };
+};
 
 /**
- * Generates a pictogram image based on a word using Gemini.
+ * Generates a pictogram image based on a word using Gemini, in the given style preset.
+ * With a reference photo (data URL) the drawing resembles that real object.
  */
-export const generatePictogramImage = async (word: string): Promise<string> => {
+export const generatePictogramImage = async (word: string, styleId?: string, referenceImage?: string, signal?: AbortSignal): Promise<string> => {
   try {
-    const prompt = `Dibujo de: ${word}. ${IMAGE_PROMPT_SUFFIX}`;
+    const style = getStylePreset(styleId);
+    const prompt = referenceImage
+      ? `Dibujo de: ${word}, basado en el objeto de esta foto. Conserva su forma, colores y rasgos distintivos para que se reconozca, pero sin el fondo ni otros objetos. ${style.promptFragment}`
+      : `Dibujo de: ${word}. ${style.promptFragment}`;
     
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: GEMINI_IMAGE_MODEL,
       contents: {
-        parts: [
-          { text: prompt }
-        ]
+        parts: referenceImage
+          ? [{ inlineData: toInlineData(referenceImage) }, { text: prompt }]
+          : [{ text: prompt }]
       },
       config: {
-        // Using square aspect ratio for standard pictogram cards
+        abortSignal: signal,
         imageConfig: {
-            aspectRatio: "1:1", 
+            aspectRatio: style.aspectRatio, 
         }
       }
     });
@@ -46,24 +71,166 @@ export const generatePictogramImage = async (word: string): Promise<string> => {
   }
 };
 
+/**
+ * Edits an existing pictogram image following a text instruction
+ * (e.g. "haz el perro café") while keeping the PECS style.
+ */
+export const refinePictogramImage = async (imageDataUrl: string, instruction: string, styleId?: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const style = getStylePreset(styleId);
+    const prompt = `Modifica este pictograma: ${instruction}. Mantén todo lo demás igual. ${style.promptFragment}`;
+
+    const response = await getClient().models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: toInlineData(imageDataUrl) },
+          { text: prompt }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+        imageConfig: {
+            aspectRatio: style.aspectRatio,
+        }
+      }
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+
+    throw new Error("No image data returned from Gemini.");
+  } catch (error) {
+    console.error("Error refining pictogram image:", error);
+    throw error;
+  }
+};
+
+/**
+ * Proposes a core vocabulary for a theme (e.g. "rutina de baño") using a Gemini text model.
+ * Unknown categories from the model are dropped rather than failing the whole list.
+ */
+export const proposeVocabulary = async (theme: string, count: number = VOCABULARY_PACK_SIZE, signal?: AbortSignal): Promise<VocabularyWord[]> => {
+  try {
+    const categoryIds: string[] = CATEGORY_OPTIONS.map(c => c.id);
+    const prompt = `Eres terapeuta de lenguaje y trabajas con un niño autista que usa pictogramas (CAA).
+Propón ${count} palabras de vocabulario núcleo en español latinoamericano para el tema: "${theme}".
+Incluye personas, acciones, objetos, lugares y sentimientos útiles para ese momento.
+Usa palabras cortas y concretas (una o dos palabras), en infinitivo para las acciones, sin repetir.
+Clasifica cada palabra en una de estas categorías: ${categoryIds.join(', ')}.`;
+
+    const response = await getClient().models.generateContent({
+      model: GEMINI_TEXT_MODEL,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              word: { type: Type.STRING },
+              category: { type: Type.STRING, enum: categoryIds }
+            },
+            required: ['word', 'category']
+          }
+        }
+      }
+    });
+
+    const parsed: { word?: string; category?: string }[] = JSON.parse(response.text || '[]');
+    const seen = new Set<string>();
+    return parsed
+      .map(item => ({
+        word: (item.word || '').trim(),
+        category: item.category && categoryIds.includes(item.category) ? item.category as PictogramCategory : undefined
+      }))
+      .filter(item => {
+        const key = item.word.toLowerCase();
+        if (!item.word || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, count);
+  } catch (error) {
+    console.error("Error proposing vocabulary:", error);
+    throw error;
+  }
+};
+
+/**
+ * Turns a telegraphic pictogram sentence ("YO QUERER AGUA") into natural
+ * Latin American Spanish ("Yo quiero agua."), keeping the child's meaning.
+ */
+export const completeSentence = async (words: string[], signal?: AbortSignal): Promise<string> => {
+  try {
+    const prompt = `Un niño que se comunica con pictogramas (CAA) armó esta secuencia de palabras: "${words.join(' ')}".
+Reescríbela como una oración natural en español latinoamericano: conjuga los verbos, agrega artículos y preposiciones, y haz concordar género y número.
+No agregues ideas nuevas ni cambies el significado; conserva el orden de las palabras siempre que sea posible.
+Empieza con mayúscula y termina con el signo de puntuación adecuado.`;
+
+    const response = await getClient().models.generateContent({
+      model: GEMINI_TEXT_MODEL,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            sentence: { type: Type.STRING }
+          },
+          required: ['sentence']
+        }
+      }
+    });
+
+    const sentence = (JSON.parse(response.text || '{}').sentence || '').trim();
+    if (!sentence) {
+      throw new Error("No sentence returned from Gemini.");
+    }
+    return sentence;
+  } catch (error) {
+    console.error("Error completing sentence:", error);
+    throw error;
+  }
+};
+
+/**
+ * Speech prompt with the voice's accent, style and speed as directions,
+ * e.g. "Di en español de México, con acento mexicano, con voz tranquila y suave: agua".
+ */
+const buildSpeechPrompt = (text: string, voice: VoiceSettings): string => {
+  const directions = [
+    getVoiceVariant(ACCENT_OPTIONS, voice.accent),
+    getVoiceVariant(VOICE_STYLE_OPTIONS, voice.style),
+    getVoiceVariant(SPEAKING_RATE_OPTIONS, voice.rate)
+  ].map(variant => variant.promptFragment).filter(Boolean);
+  return `Di ${directions.join(', ')}: ${text}`;
+};
+
 /**
  * Generates audio (TTS) for the pictogram word using Gemini.
  */
-export const generatePictogramAudio = async (word: string, voiceName: string = 'Zephyr'): Promise<string> => {
+export const generatePictogramAudio = async (word: string, voice: VoiceSettings = DEFAULT_VOICE, signal?: AbortSignal): Promise<string> => {
   try {
-    // Use a directive to ensure Latin American Spanish pronunciation
-    const prompt = `Di en español latinoamericano: ${word}`;
+    const prompt = buildSpeechPrompt(word, voice);
 
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: GEMINI_TTS_MODEL,
       contents: [
         { parts: [{ text: prompt }] }
       ],
       config: {
+        abortSignal: signal,
         responseModalities: [Modality.AUDIO], 
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName }, 
+            prebuiltVoiceConfig: { voiceName: voice.voiceId }, 
           },
         },
       },
@@ -90,25 +257,7 @@ export const generatePictogramAudio = async (word: string, voiceName: string = '
   }
 };
 
-// --- Audio Decoding & Playback Logic ---
-
-let audioContext: AudioContext | null = null;
-
-/**
- * Decodes a Base64 string into a Uint8Array of bytes.
- */
-const decodeBase64 = (base64: string): Uint8Array => {
-  // If it contains a data URI prefix (common in recordings), strip it
-  const cleanBase64 = base64.includes(',') ? base64.split(',')[1] : base64;
-  
-  const binaryString = atob(cleanBase64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-};
+// --- Audio Helpers ---
 
 /**
  * Helper to convert a Blob (from recording) to Base64 string for storage
@@ -130,68 +279,3 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
         reader.readAsDataURL(blob);
     });
 };
-
-/**
- * Manually decodes raw PCM data (16-bit Little Endian) into an AudioBuffer.
- * Used for Gemini API responses.
- */
-const decodeAudioDataPCM = (
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): AudioBuffer => {
-  const byteLength = data.length % 2 === 0 ? data.length : data.length - 1;
-  const bufferView = data.buffer.slice(data.byteOffset, data.byteOffset + byteLength);
-  const dataInt16 = new Int16Array(bufferView);
-  
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-};
-
-/**
- * Plays audio from a base64 string.
- * Smartly detects if it's raw PCM (Gemini) or a browser-compatible container (Recording).
- */
-export const playAudio = async (base64Audio: string) => {
-    if (!audioContext) {
-        audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    }
-    
-    if (audioContext.state === 'suspended') {
-        await audioContext.resume();
-    }
-
-    try {
-        const bytes = decodeBase64(base64Audio);
-        
-        // Try to decode as standard media file first (WebM, WAV from recording)
-        try {
-            const bufferCopy = bytes.buffer.slice(0);
-            const audioBuffer = await audioContext.decodeAudioData(bufferCopy);
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContext.destination);
-            source.start(0);
-        } catch (standardDecodeError) {
-            // If standard decode fails, assume Raw PCM from Gemini
-            const audioBuffer = decodeAudioDataPCM(bytes, audioContext, 24000, 1);
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContext.destination);
-            source.start(0);
-        }
-
-    } catch (e) {
-        console.error("Error playing audio", e);
-        throw e;
-    }
-};
\ No newline at end of file
@@ -0,0 +1,201 @@
+/**
+ * Generation Job Queue
+ * Every Gemini call goes through here so bulk runs don't trip the rate limit:
+ * at most GENERATION_CONCURRENCY jobs run at once, 429/5xx responses are retried
+ * with exponential backoff, and any job can be cancelled (AbortController).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { GenerationJob, GenerationJobKind, ProcessingState } from '../types';
+import { GENERATION_CONCURRENCY, GENERATION_MAX_ATTEMPTS, GENERATION_BACKOFF_BASE_MS } from '../constants';
+
+const FINISHED_JOB_LINGER_MS = 3000; // Completed/cancelled jobs stay visible briefly
+
+/**
+ * Rejection reason for jobs cancelled by the user or by their caller.
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generación cancelada');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export const isGenerationCancelled = (error: unknown): error is GenerationCancelledError =>
+  error instanceof GenerationCancelledError;
+
+type GenerationTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueueEntry {
+  job: GenerationJob;
+  task: GenerationTask<unknown>;
+  controller: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const RUNNING_STATE: Record<GenerationJobKind, ProcessingState> = {
+  image: ProcessingState.GENERATING_IMAGE,
+  audio: ProcessingState.GENERATING_AUDIO,
+  text: ProcessingState.GENERATING_TEXT
+};
+
+let entries: QueueEntry[] = [];
+let runningCount = 0;
+
+type JobsListener = () => void;
+const listeners = new Set<JobsListener>();
+
+/**
+ * Subscribe to job changes. Returns an unsubscribe function.
+ */
+export const subscribeToJobs = (listener: JobsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const getJobs = (): GenerationJob[] => entries.map(entry => entry.job);
+
+const updateJob = (entry: QueueEntry, updates: Partial<GenerationJob>) => {
+  entry.job = { ...entry.job, ...updates };
+  notify();
+};
+
+const removeEntry = (id: string) => {
+  entries = entries.filter(entry => entry.job.id !== id);
+  notify();
+};
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying; anything else
+ * (bad prompt, safety block, missing key) will fail the same way again.
+ */
+const isRetryable = (error: unknown): boolean => {
+  // The gateway's daily quota won't reset within the backoff window
+  if ((error as { code?: string })?.code === 'quota_exceeded') return false;
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE/.test(message);
+};
+
+const backoffDelay = (attempt: number) =>
+  GENERATION_BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.random() * 250;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    }, { once: true });
+  });
+
+const runEntry = async (entry: QueueEntry) => {
+  const { signal } = entry.controller;
+  runningCount++;
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      updateJob(entry, { state: RUNNING_STATE[entry.job.kind], attempt });
+      try {
+        const result = await entry.task(signal);
+        if (signal.aborted) throw new GenerationCancelledError();
+        updateJob(entry, { state: ProcessingState.COMPLETE });
+        entry.resolve(result);
+        setTimeout(() => removeEntry(entry.job.id), FINISHED_JOB_LINGER_MS);
+        return;
+      } catch (error) {
+        if (signal.aborted) throw new GenerationCancelledError();
+        if (attempt >= GENERATION_MAX_ATTEMPTS || !isRetryable(error)) throw error;
+
+        const delay = backoffDelay(attempt);
+        console.warn(`[Queue] "${entry.job.label}" failed (attempt ${attempt}), retrying in ${Math.round(delay)}ms`, error);
+        updateJob(entry, { state: ProcessingState.RETRYING });
+        await sleep(delay, signal);
+      }
+    }
+  } catch (error) {
+    if (isGenerationCancelled(error)) {
+      updateJob(entry, { state: ProcessingState.CANCELLED });
+      setTimeout(() => removeEntry(entry.job.id), FINISHED_JOB_LINGER_MS);
+    } else {
+      // Failed jobs stay in the panel until dismissed
+      updateJob(entry, { state: ProcessingState.ERROR, error: error instanceof Error ? error.message : String(error) });
+    }
+    entry.reject(error);
+  } finally {
+    runningCount--;
+    processQueue();
+  }
+};
+
+const processQueue = () => {
+  while (runningCount < GENERATION_CONCURRENCY) {
+    const next = entries.find(entry => entry.job.state === ProcessingState.QUEUED);
+    if (!next) return;
+    runEntry(next);
+  }
+};
+
+/**
+ * Queue a generation call. The task receives an AbortSignal to hand to Gemini.
+ * Aborting `options.signal` (e.g. when a modal closes) cancels the job.
+ */
+export const runGenerationJob = <T>(
+  kind: GenerationJobKind,
+  label: string,
+  task: GenerationTask<T>,
+  options: { signal?: AbortSignal } = {}
+): Promise<T> => {
+  if (options.signal?.aborted) {
+    return Promise.reject(new GenerationCancelledError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const entry: QueueEntry = {
+      job: { id: uuidv4(), kind, label, state: ProcessingState.QUEUED, attempt: 0, createdAt: Date.now() },
+      task,
+      controller: new AbortController(),
+      resolve: resolve as (value: unknown) => void,
+      reject
+    };
+    entries = [...entries, entry];
+    options.signal?.addEventListener('abort', () => cancelJob(entry.job.id), { once: true });
+    notify();
+    processQueue();
+  });
+};
+
+/**
+ * Cancel a queued, running or backing-off job.
+ */
+export const cancelJob = (id: string) => {
+  const entry = entries.find(e => e.job.id === id);
+  if (!entry) return;
+
+  if (entry.job.state === ProcessingState.QUEUED) {
+    updateJob(entry, { state: ProcessingState.CANCELLED });
+    entry.reject(new GenerationCancelledError());
+    setTimeout(() => removeEntry(id), FINISHED_JOB_LINGER_MS);
+  } else if (entry.job.state !== ProcessingState.COMPLETE && entry.job.state !== ProcessingState.ERROR && entry.job.state !== ProcessingState.CANCELLED) {
+    entry.controller.abort(); // runEntry marks it cancelled
+  }
+};
+
+export const cancelAllJobs = () => {
+  entries.forEach(entry => cancelJob(entry.job.id));
+};
+
+/**
+ * Remove a failed job from the panel.
+ */
+export const dismissJob = (id: string) => {
+  removeEntry(id);
+};
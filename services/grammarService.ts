@@ -0,0 +1,68 @@
+/**
+ * Grammar Service
+ * Turns the strip's telegraphic words into a natural sentence before it is spoken.
+ * Corrections are remembered in localStorage, so a sentence is only sent once
+ * and still reads naturally offline; unknown sentences fall back to the raw words.
+ */
+
+import { generation } from './providers';
+import { runGenerationJob } from './generationQueue';
+
+const CORRECTIONS_STORAGE_KEY = 'sentenceCorrections';
+const MAX_STORED_CORRECTIONS = 200;
+
+export interface CompletedSentence {
+  text: string;
+  isCorrected: boolean; // False when the raw words were kept (offline, single word or failure)
+}
+
+const toKey = (words: string[]) => words.map(w => w.trim().toLowerCase()).join(' ');
+
+const loadCorrections = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CORRECTIONS_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('[Grammar] Error reading corrections:', error);
+    return {};
+  }
+};
+
+const saveCorrection = (key: string, sentence: string) => {
+  try {
+    // Re-inserting moves the key to the end, so the oldest corrections are dropped first
+    const { [key]: _previous, ...rest } = loadCorrections();
+    const entries = Object.entries({ ...rest, [key]: sentence }).slice(-MAX_STORED_CORRECTIONS);
+    localStorage.setItem(CORRECTIONS_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.error('[Grammar] Error saving correction:', error);
+  }
+};
+
+/**
+ * Grammatical version of the words, e.g. ["YO", "QUERER", "AGUA"] → "Yo quiero agua."
+ * Never rejects: without a correction the words are returned as they are.
+ */
+export const completeSentence = async (words: string[]): Promise<CompletedSentence> => {
+  const cleanWords = words.map(w => w.trim()).filter(Boolean);
+  const raw: CompletedSentence = { text: cleanWords.join(' '), isCorrected: false };
+  if (cleanWords.length < 2) return raw;
+
+  const key = toKey(cleanWords);
+  const stored = loadCorrections()[key];
+  if (stored) return { text: stored, isCorrected: true };
+
+  if (!navigator.onLine) return raw;
+
+  try {
+    const sentence = await runGenerationJob(
+      'text',
+      `Gramática: ${raw.text}`,
+      signal => generation.text.completeSentence(cleanWords, signal)
+    );
+    saveCorrection(key, sentence);
+    return { text: sentence, isCorrected: true };
+  } catch (error) {
+    console.warn('[Grammar] Could not complete sentence, using raw words', error);
+    return raw;
+  }
+};
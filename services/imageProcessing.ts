@@ -0,0 +1,107 @@
+/**
+ * Image Processing Helpers
+ * Client-side preparation of photos (uploads and camera shots) before they
+ * are sent to Gemini or stored on a pictogram.
+ */
+
+const DEFAULT_MAX_DIMENSION = 1024; // Plenty for a card, keeps requests small
+const DEFAULT_JPEG_QUALITY = 0.85;
+const IMPORTED_IMAGE_SIZE = 512; // Imported pictograms are stored square at this size
+const IMPORTED_JPEG_QUALITY = 0.8;
+
+/**
+ * Reads a File/Blob as a data URL.
+ */
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Loads an image element from any src (data URL or object URL).
+ */
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('No se pudo leer la imagen.'));
+    img.src = src;
+  });
+};
+
+/**
+ * Draws a source rectangle of the image onto a new canvas of the given size
+ * and encodes it as JPEG.
+ */
+const drawToJpeg = (
+  img: HTMLImageElement,
+  source: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number,
+  quality: number
+): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible.');
+
+  // JPEG has no alpha: paint transparent areas white like a pictogram background
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, source.x, source.y, source.width, source.height, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Downscales an image so its longest side is at most `maxDimension`
+ * and re-encodes it as JPEG. Smaller images are only re-encoded.
+ */
+export const resizeImage = async (
+  dataUrl: string,
+  maxDimension: number = DEFAULT_MAX_DIMENSION,
+  quality: number = DEFAULT_JPEG_QUALITY
+): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const full = { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight };
+  return drawToJpeg(img, full, Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale), quality);
+};
+
+/**
+ * Center-crops an image to a square and scales it to `size` x `size` (never upscaling).
+ */
+export const cropToSquare = async (
+  dataUrl: string,
+  size: number = IMPORTED_IMAGE_SIZE,
+  quality: number = IMPORTED_JPEG_QUALITY
+): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const side = Math.min(img.naturalWidth, img.naturalHeight);
+  const crop = {
+    x: (img.naturalWidth - side) / 2,
+    y: (img.naturalHeight - side) / 2,
+    width: side,
+    height: side
+  };
+  const target = Math.min(size, side);
+  return drawToJpeg(img, crop, target, target, quality);
+};
+
+/**
+ * Turns a picked photo into a compact JPEG data URL.
+ */
+export const prepareReferencePhoto = async (file: File): Promise<string> => {
+  return resizeImage(await readFileAsDataUrl(file));
+};
+
+/**
+ * Turns a user photo or drawing into a square, compressed pictogram image.
+ */
+export const prepareImportedImage = async (file: File): Promise<string> => {
+  return cropToSquare(await readFileAsDataUrl(file));
+};
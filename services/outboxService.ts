@@ -0,0 +1,207 @@
+/**
+ * IndexedDB Outbox for Offline Mutations
+ * Queues create/update/delete calls made without a connection so they can be
+ * replayed in order once the app is back online. Conflicts found while
+ * replaying are stored instead of being dropped.
+ */
+
+import { Pictogram } from '../types';
+import { PictogramPosition } from './repositories/types';
+
+const DB_NAME = 'PictogramOutbox';
+const DB_VERSION = 1;
+const MUTATIONS_STORE = 'mutations';
+const CONFLICTS_STORE = 'conflicts';
+
+export const TEMP_ID_PREFIX = 'local-';
+
+export type OutboxMutation =
+  | { seq?: number; type: 'create'; pictogramId: string; payload: Omit<Pictogram, 'id'>; queuedAt: number }
+  | { seq?: number; type: 'update'; pictogramId: string; payload: Partial<Pictogram>; queuedAt: number }
+  | { seq?: number; type: 'delete'; pictogramId: string; queuedAt: number }
+  | { seq?: number; type: 'reorder'; positions: PictogramPosition[]; queuedAt: number }; // The whole grid order at once
+
+export interface OutboxConflict {
+  seq?: number;
+  mutation: OutboxMutation;
+  status: number; // HTTP status returned by the backend
+  reason: string; // Human readable (Spanish) explanation
+  detectedAt: number;
+}
+
+type OutboxListener = () => void;
+const listeners = new Set<OutboxListener>();
+
+/**
+ * Subscribe to queue/conflict changes. Returns an unsubscribe function.
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Whether an id was generated locally for a pictogram the backend hasn't seen yet
+ */
+export const isTempId = (id: string): boolean => id.startsWith(TEMP_ID_PREFIX);
+
+/**
+ * Initialize IndexedDB
+ */
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(CONFLICTS_STORE)) {
+        db.createObjectStore(CONFLICTS_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      console.log('[Outbox] IndexedDB stores created');
+    };
+  });
+};
+
+/**
+ * Run a request against a store and resolve with its result
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await initDB();
+  const transaction = db.transaction(storeName, mode);
+  const store = transaction.objectStore(storeName);
+
+  return new Promise((resolve, reject) => {
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Get every queued mutation, oldest first
+ */
+export const getPendingMutations = async (): Promise<OutboxMutation[]> => {
+  try {
+    return await runRequest<OutboxMutation[]>(MUTATIONS_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error('[Outbox] Error reading queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Ids of pictograms with changes that haven't reached the backend yet
+ */
+export const getPendingPictogramIds = async (): Promise<string[]> => {
+  const mutations = await getPendingMutations();
+  // A reorder moves cards without changing them, so it marks none as pending
+  return [...new Set(mutations.flatMap(m => m.type === 'reorder' ? [] : [m.pictogramId]))];
+};
+
+export const hasPendingMutations = async (): Promise<boolean> => {
+  try {
+    const count = await runRequest<number>(MUTATIONS_STORE, 'readonly', store => store.count());
+    return count > 0;
+  } catch (error) {
+    console.error('[Outbox] Error counting queue:', error);
+    return false;
+  }
+};
+
+/**
+ * Queue a mutation. Deleting a pictogram that only exists locally simply
+ * discards everything queued for it (and takes it out of queued reorders).
+ */
+export const enqueueMutation = async (mutation: OutboxMutation): Promise<void> => {
+  if (mutation.type === 'delete' && isTempId(mutation.pictogramId)) {
+    const pending = await getPendingMutations();
+    for (const queued of pending) {
+      if (queued.seq === undefined) continue;
+      if (queued.type === 'reorder') {
+        const positions = queued.positions.filter(p => p.id !== mutation.pictogramId);
+        await runRequest(MUTATIONS_STORE, 'readwrite', store => store.put({ ...queued, positions }));
+      } else if (queued.pictogramId === mutation.pictogramId) {
+        await runRequest(MUTATIONS_STORE, 'readwrite', store => store.delete(queued.seq!));
+      }
+    }
+    console.log('[Outbox] Discarded unsynced pictogram:', mutation.pictogramId);
+    notify();
+    return;
+  }
+
+  await runRequest(MUTATIONS_STORE, 'readwrite', store => store.add(mutation));
+  console.log(`[Outbox] Queued ${mutation.type} for:`, mutation.type === 'reorder' ? `${mutation.positions.length} pictograms` : mutation.pictogramId);
+  notify();
+};
+
+/**
+ * Remove a mutation once it was replayed (or turned into a conflict)
+ */
+export const removeMutation = async (seq: number): Promise<void> => {
+  await runRequest(MUTATIONS_STORE, 'readwrite', store => store.delete(seq));
+  notify();
+};
+
+/**
+ * Point queued mutations at the id the backend assigned to a locally created pictogram
+ */
+export const remapPictogramId = async (tempId: string, newId: string): Promise<void> => {
+  const pending = await getPendingMutations();
+  for (const queued of pending) {
+    if (queued.type === 'reorder') {
+      if (!queued.positions.some(p => p.id === tempId)) continue;
+      const positions = queued.positions.map(p => p.id === tempId ? { ...p, id: newId } : p);
+      await runRequest(MUTATIONS_STORE, 'readwrite', store => store.put({ ...queued, positions }));
+    } else if (queued.pictogramId === tempId) {
+      await runRequest(MUTATIONS_STORE, 'readwrite', store => store.put({ ...queued, pictogramId: newId }));
+    }
+  }
+  notify();
+};
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+export const recordConflict = async (conflict: OutboxConflict): Promise<void> => {
+  try {
+    await runRequest(CONFLICTS_STORE, 'readwrite', store => store.add(conflict));
+    console.warn('[Outbox] Conflict recorded:', conflict.reason, conflict.mutation);
+    notify();
+  } catch (error) {
+    console.error('[Outbox] Error recording conflict:', error);
+  }
+};
+
+export const getConflicts = async (): Promise<OutboxConflict[]> => {
+  try {
+    return await runRequest<OutboxConflict[]>(CONFLICTS_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error('[Outbox] Error reading conflicts:', error);
+    return [];
+  }
+};
+
+export const dismissConflict = async (seq: number): Promise<void> => {
+  await runRequest(CONFLICTS_STORE, 'readwrite', store => store.delete(seq));
+  notify();
+};
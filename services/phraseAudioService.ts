@@ -0,0 +1,134 @@
+/**
+ * Phrase Audio Service
+ * Speaks a whole sentence as one synthesized utterance. Every phrase is cached in
+ * IndexedDB by voice (with its accent, style and speed) and text, so repeated
+ * sentences play instantly and offline.
+ */
+
+import { Pictogram, VoiceSettings } from '../types';
+import { PHRASE_CACHE_MAX_ENTRIES, voiceKey } from '../constants';
+import { generation } from './providers';
+import { runGenerationJob } from './generationQueue';
+
+const DB_NAME = 'PhraseAudioCache';
+const DB_VERSION = 1;
+const STORE_NAME = 'phrases';
+
+interface PhraseEntry {
+  key: string;
+  text: string;
+  voice: string; // voiceKey() of the voice settings
+  audioBase64: string;
+  lastUsedAt: number;
+}
+
+/**
+ * Initialize IndexedDB
+ */
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        console.log('[Phrases] IndexedDB store created');
+      }
+    };
+  });
+};
+
+/**
+ * Run a request against the store and resolve with its result
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await initDB();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const store = transaction.objectStore(STORE_NAME);
+
+  return new Promise((resolve, reject) => {
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Case and spacing don't change what is said
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const toKey = (text: string, voice: VoiceSettings) => `${voiceKey(voice)}|${normalize(text)}`;
+
+/**
+ * Joins the strip's words into the sentence to speak.
+ */
+export const composePhrase = (pictograms: Pictogram[]): string =>
+  pictograms.map(p => p.word.trim()).filter(Boolean).join(' ');
+
+const getCachedPhrase = async (text: string, voice: VoiceSettings): Promise<string | null> => {
+  try {
+    const entry = await runRequest<PhraseEntry | undefined>('readonly', store => store.get(toKey(text, voice)));
+    if (!entry) return null;
+
+    // Touch the entry so frequent sentences survive eviction
+    runRequest('readwrite', store => store.put({ ...entry, lastUsedAt: Date.now() }))
+      .catch(err => console.error('[Phrases] Error updating cache entry:', err));
+    return entry.audioBase64;
+  } catch (error) {
+    console.error('[Phrases] Error reading from cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Drop the least recently used phrases beyond PHRASE_CACHE_MAX_ENTRIES
+ */
+const evictOldPhrases = async () => {
+  const entries = await runRequest<PhraseEntry[]>('readonly', store => store.getAll());
+  if (entries.length <= PHRASE_CACHE_MAX_ENTRIES) return;
+
+  const stale = entries
+    .sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+    .slice(0, entries.length - PHRASE_CACHE_MAX_ENTRIES);
+  await Promise.all(stale.map(entry => runRequest('readwrite', store => store.delete(entry.key))));
+};
+
+const cachePhrase = async (text: string, voice: VoiceSettings, audioBase64: string) => {
+  try {
+    const entry: PhraseEntry = { key: toKey(text, voice), text: normalize(text), voice: voiceKey(voice), audioBase64, lastUsedAt: Date.now() };
+    await runRequest('readwrite', store => store.put(entry));
+    await evictOldPhrases();
+  } catch (error) {
+    console.error('[Phrases] Error writing to cache:', error);
+  }
+};
+
+/**
+ * Audio (raw Base64) for a sentence in the given voice: from the cache when it
+ * was spoken before, otherwise synthesized once and cached.
+ * Rejects when offline and the phrase was never spoken.
+ */
+export const getPhraseAudio = async (text: string, voice: VoiceSettings): Promise<string> => {
+  const cached = await getCachedPhrase(text, voice);
+  if (cached) return cached;
+
+  if (!navigator.onLine) {
+    throw new Error('Phrase not cached and the device is offline');
+  }
+
+  const audioBase64 = await runGenerationJob(
+    'audio',
+    `Frase: ${text}`,
+    signal => generation.speech.synthesize(text, voice, signal)
+  );
+  await cachePhrase(text, voice, audioBase64);
+  return audioBase64;
+};
+
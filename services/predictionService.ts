@@ -0,0 +1,184 @@
+/**
+ * Next-Pictogram Prediction
+ * A small n-gram model (up to trigrams) of which pictogram follows which,
+ * learned from the child's own selections in the sentence strip.
+ * One model per child, persisted in IndexedDB and mirrored in memory.
+ */
+
+import { Pictogram } from '../types';
+
+const DB_NAME = 'PredictionModels';
+const DB_VERSION = 1;
+const STORE_NAME = 'models';
+
+const SENTENCE_START = '^'; // Context token before the first word
+
+// Interpolation weights: longer contexts are more specific, shorter ones always have data
+const TRIGRAM_WEIGHT = 0.6;
+const BIGRAM_WEIGHT = 0.3;
+const UNIGRAM_WEIGHT = 0.1;
+
+interface NgramModel {
+  childId: string;
+  // Context key → next pictogram id → times seen
+  counts: Record<string, Record<string, number>>;
+  updatedAt: number;
+}
+
+/**
+ * Initialize IndexedDB
+ */
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'childId' });
+        console.log('[Predictions] IndexedDB store created');
+      }
+    };
+  });
+};
+
+/**
+ * Run a request against the store and resolve with its result
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await initDB();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const store = transaction.objectStore(STORE_NAME);
+
+  return new Promise((resolve, reject) => {
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const models = new Map<string, NgramModel>();
+const loading = new Map<string, Promise<void>>();
+
+type PredictionsListener = () => void;
+const listeners = new Set<PredictionsListener>();
+
+/**
+ * Subscribe to model changes. Returns an unsubscribe function.
+ */
+export const subscribeToPredictions = (listener: PredictionsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const emptyModel = (childId: string): NgramModel => ({ childId, counts: {}, updatedAt: Date.now() });
+
+/**
+ * Context keys for the word about to be chosen, from most to least specific.
+ */
+const contextKeys = (previousIds: string[]): [string, string, string] => {
+  const [beforeLast, last] = [SENTENCE_START, SENTENCE_START, ...previousIds].slice(-2);
+  return [`3:${beforeLast}|${last}`, `2:${last}`, '1:'];
+};
+
+/**
+ * Load a child's model into memory (once). Predictions are empty until it resolves.
+ */
+export const loadModel = (childId: string): Promise<void> => {
+  if (models.has(childId)) return Promise.resolve();
+
+  let pending = loading.get(childId);
+  if (!pending) {
+    pending = runRequest<NgramModel | undefined>('readonly', store => store.get(childId))
+      .then(stored => {
+        // A reset while loading already replaced the model
+        if (!models.has(childId)) models.set(childId, stored || emptyModel(childId));
+        notify();
+      })
+      .catch(error => {
+        console.error('[Predictions] Error loading model:', error);
+        if (!models.has(childId)) models.set(childId, emptyModel(childId));
+      })
+      .finally(() => loading.delete(childId));
+    loading.set(childId, pending);
+  }
+  return pending;
+};
+
+const saveModel = async (model: NgramModel) => {
+  try {
+    await runRequest('readwrite', store => store.put(model));
+  } catch (error) {
+    console.error('[Predictions] Error saving model:', error);
+  }
+};
+
+/**
+ * Learn that `nextId` was chosen after `previousIds` (the strip before the selection).
+ */
+export const recordSelection = async (childId: string, previousIds: string[], nextId: string): Promise<void> => {
+  await loadModel(childId);
+  const model = models.get(childId) || emptyModel(childId);
+
+  const counts = { ...model.counts };
+  for (const key of contextKeys(previousIds)) {
+    counts[key] = { ...counts[key], [nextId]: (counts[key]?.[nextId] || 0) + 1 };
+  }
+
+  const updated: NgramModel = { ...model, counts, updatedAt: Date.now() };
+  models.set(childId, updated);
+  notify();
+  await saveModel(updated);
+};
+
+/**
+ * Most likely next pictograms among `candidates`, best first.
+ * Each order contributes its relative frequency, weighted by how specific it is.
+ */
+export const predictNext = (childId: string, previousIds: string[], candidates: Pictogram[], limit: number): Pictogram[] => {
+  const model = models.get(childId);
+  if (!model) return [];
+
+  const scores = new Map<string, number>();
+  const weights = [TRIGRAM_WEIGHT, BIGRAM_WEIGHT, UNIGRAM_WEIGHT];
+
+  contextKeys(previousIds).forEach((key, order) => {
+    const followers = model.counts[key];
+    if (!followers) return;
+    const total = Object.values(followers).reduce((sum, count) => sum + count, 0);
+    for (const [id, count] of Object.entries(followers)) {
+      scores.set(id, (scores.get(id) || 0) + weights[order] * (count / total));
+    }
+  });
+
+  return candidates
+    .filter(p => scores.has(p.id))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)
+    .slice(0, limit);
+};
+
+/**
+ * Forget everything learned for a child
+ */
+export const resetModel = async (childId: string): Promise<void> => {
+  models.set(childId, emptyModel(childId));
+  notify();
+  try {
+    await runRequest('readwrite', store => store.delete(childId));
+    console.log('[Predictions] Model reset for:', childId);
+  } catch (error) {
+    console.error('[Predictions] Error resetting model:', error);
+    throw error;
+  }
+};
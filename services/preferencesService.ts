@@ -0,0 +1,78 @@
+/**
+ * User Preferences Service
+ * Small settings that belong to the person using the app (not to a pictogram),
+ * persisted in localStorage.
+ */
+
+import { DEFAULT_STYLE_ID, DEFAULT_VOICE } from '../constants';
+import { ChildProfile, VoiceSettings } from '../types';
+
+export interface UserPreferences {
+  defaultStyleId: string; // Image style preset preselected when creating pictograms
+  speakNaturally: boolean; // Sentence strip speaks one synthesized phrase instead of word by word
+  completeGrammar: boolean; // Conjugate and add articles before speaking ("yo querer agua" → "Yo quiero agua.")
+  volume: number; // 0..1, applies to every clip
+  playbackRate: number; // 1 = normal speed
+  wordPauseMs: number; // Silence between words when speaking word by word
+  children: ChildProfile[];
+  activeChildId: string; // Whose predictions are learned and shown, and whose voice is used
+}
+
+const PREFERENCES_STORAGE_KEY = 'preferences';
+
+export const DEFAULT_CHILD_ID = 'default';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  defaultStyleId: DEFAULT_STYLE_ID,
+  speakNaturally: false,
+  completeGrammar: true,
+  volume: 1,
+  playbackRate: 1,
+  wordPauseMs: 400,
+  children: [{ id: DEFAULT_CHILD_ID, name: 'Perfil principal' }],
+  activeChildId: DEFAULT_CHILD_ID
+};
+
+/**
+ * Older saves had one `preferredVoiceId` for all sentences; it becomes every child's default voice.
+ */
+const migrateStored = ({ preferredVoiceId, ...stored }: Partial<UserPreferences> & { preferredVoiceId?: string }): UserPreferences => {
+  const preferences = { ...DEFAULT_PREFERENCES, ...stored };
+  if (!preferredVoiceId) return preferences;
+  return {
+    ...preferences,
+    children: preferences.children.map(child =>
+      child.voice ? child : { ...child, voice: { ...DEFAULT_VOICE, voiceId: preferredVoiceId } }
+    )
+  };
+};
+
+/**
+ * Read preferences, filling gaps with defaults (older saves may lack newer keys)
+ */
+export const loadPreferences = (): UserPreferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return stored ? migrateStored(JSON.parse(stored)) : DEFAULT_PREFERENCES;
+  } catch (error) {
+    console.error('[Preferences] Error reading preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+/**
+ * Persist preferences
+ */
+export const savePreferences = (preferences: UserPreferences): void => {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('[Preferences] Error saving preferences:', error);
+  }
+};
+
+/**
+ * The active child's default voice (the app default until one is saved)
+ */
+export const getActiveVoice = (preferences: UserPreferences): VoiceSettings =>
+  preferences.children.find(child => child.id === preferences.activeChildId)?.voice || DEFAULT_VOICE;
@@ -0,0 +1,28 @@
+import { GenerationProvider } from './types';
+import {
+  generatePictogramImage,
+  refinePictogramImage,
+  generatePictogramAudio,
+  proposeVocabulary,
+  completeSentence
+} from '../geminiService';
+import { processSpeech } from '../audioProcessing';
+
+/**
+ * Gemini models called straight from the browser (needs GEMINI_API_KEY).
+ */
+export const geminiProvider: GenerationProvider = {
+  name: 'gemini',
+  image: {
+    generate: generatePictogramImage,
+    refine: refinePictogramImage
+  },
+  speech: {
+    // Raw PCM becomes a trimmed, normalized WAV before anyone stores or plays it
+    synthesize: async (text, voice, signal) => processSpeech(await generatePictogramAudio(text, voice, signal))
+  },
+  text: {
+    proposeVocabulary,
+    completeSentence
+  }
+};
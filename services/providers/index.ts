@@ -0,0 +1,21 @@
+import { GENERATION_PROVIDER } from '../../constants';
+import { GenerationProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { stubProvider } from './stubProvider';
+import { proxyProvider } from './proxyProvider';
+
+export * from './types';
+
+const providers: Record<GenerationProvider['name'], GenerationProvider> = {
+  gemini: geminiProvider,
+  stub: stubProvider,
+  proxy: proxyProvider
+};
+
+/**
+ * Generation provider picked at build time through GENERATION_PROVIDER ("gemini" | "stub" | "proxy").
+ * Unknown values fall back to Gemini.
+ */
+export const generation: GenerationProvider = providers[GENERATION_PROVIDER as GenerationProvider['name']] || geminiProvider;
+
+console.log(`[Generation] Using ${generation.name} provider`);
@@ -0,0 +1,57 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GatewayError, GenerationProvider } from './types';
+import { VocabularyWord } from '../../types';
+import { GENERATION_PROXY_URL } from '../../constants';
+
+const CLIENT_ID_KEY = 'generationClientId';
+
+/**
+ * Stable per-browser id that labels this client's requests in the gateway log.
+ */
+const getClientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = uuidv4();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+const post = async <T>(path: string, body: object, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`${GENERATION_PROXY_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-User-Id': getClientId() },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new GatewayError(payload.error || `Gateway request failed: ${response.statusText}`, response.status, payload.code);
+  }
+
+  return response.json();
+};
+
+/**
+ * Generation through the server-side gateway (`server/gateway.ts`), so no key ships in the bundle.
+ */
+export const proxyProvider: GenerationProvider = {
+  name: 'proxy',
+  image: {
+    generate: async (word, styleId, referenceImage, signal) =>
+      (await post<{ image: string }>('/image', { word, styleId, referenceImage }, signal)).image,
+    refine: async (image, instruction, styleId, signal) =>
+      (await post<{ image: string }>('/image/refine', { image, instruction, styleId }, signal)).image
+  },
+  speech: {
+    synthesize: async (text, voice, signal) =>
+      (await post<{ audio: string }>('/speech', { text, voice }, signal)).audio
+  },
+  text: {
+    proposeVocabulary: async (theme, count, signal) =>
+      (await post<{ words: VocabularyWord[] }>('/vocabulary', { theme, count }, signal)).words,
+    completeSentence: async (words, signal) =>
+      (await post<{ sentence: string }>('/sentence', { words }, signal)).sentence
+  }
+};
@@ -0,0 +1,141 @@
+/**
+ * Deterministic offline provider
+ * Placeholder drawings (SVG) and tones (WAV) derived from the input, so demos
+ * and development of the whole create flow work without a key or network.
+ * The same word always produces the same image and sound.
+ */
+
+import { GenerationProvider } from './types';
+import { VocabularyWord, VoiceSettings } from '../../types';
+import { getStylePreset, VOCABULARY_PACK_SIZE, DEFAULT_VOICE, voiceKey } from '../../constants';
+import { encodeWav } from '../audioProcessing';
+import { GenerationCancelledError } from '../generationQueue';
+
+const STUB_LATENCY_MS = 400; // Enough to see loading states
+const STUB_SAMPLE_RATE = 24000;
+
+const STUB_VOCABULARY: VocabularyWord[] = [
+  { word: 'Mamá', category: 'people' },
+  { word: 'Papá', category: 'people' },
+  { word: 'Comer', category: 'actions' },
+  { word: 'Beber', category: 'actions' },
+  { word: 'Jugar', category: 'actions' },
+  { word: 'Feliz', category: 'feelings' },
+  { word: 'Cansado', category: 'feelings' },
+  { word: 'Agua', category: 'food' },
+  { word: 'Pelota', category: 'objects' },
+  { word: 'Casa', category: 'places' },
+  { word: 'Hola', category: 'social' },
+  { word: 'Gracias', category: 'social' },
+  { word: 'Más', category: 'social' },
+  { word: 'Ayuda', category: 'social' }
+];
+
+/**
+ * Small stable string hash (FNV-1a)
+ */
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const delay = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new GenerationCancelledError());
+    const timer = setTimeout(resolve, STUB_LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    }, { once: true });
+  });
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char]!));
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/**
+ * Colored card with the word's initial and the word itself, sized to the style's aspect ratio.
+ */
+const renderPlaceholder = (word: string, styleId?: string, caption?: string): string => {
+  const style = getStylePreset(styleId);
+  const [ratioW, ratioH] = style.aspectRatio.split(':').map(Number);
+  const width = 512;
+  const height = Math.round((width * ratioH) / ratioW);
+  const hue = hash(`${word}|${style.id}`) % 360;
+  const label = escapeXml(word.toUpperCase());
+  const initial = escapeXml(word.trim().charAt(0).toUpperCase() || '?');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="${width}" height="${height}" fill="#ffffff"/>
+<rect x="24" y="24" width="${width - 48}" height="${height - 48}" rx="48" fill="hsl(${hue},70%,85%)" stroke="hsl(${hue},60%,40%)" stroke-width="12"/>
+<text x="50%" y="${height / 2}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-weight="bold" font-size="${Math.round(height * 0.4)}" fill="hsl(${hue},60%,30%)">${initial}</text>
+<text x="50%" y="${height - 70}" text-anchor="middle" font-family="sans-serif" font-weight="bold" font-size="40" fill="hsl(${hue},60%,25%)">${label}</text>
+${caption ? `<text x="50%" y="70" text-anchor="middle" font-family="sans-serif" font-size="24" fill="hsl(${hue},40%,35%)">${escapeXml(caption)}</text>` : ''}
+</svg>`;
+
+  return `data:image/svg+xml;base64,${toBase64(new TextEncoder().encode(svg))}`;
+};
+
+// Speaking rate stretches the tone like it would stretch the word
+const RATE_STRETCH: Record<string, number> = { slow: 1.3, normal: 1, fast: 0.8 };
+
+/**
+ * Short two-note chime whose pitch depends on the text and voice; longer words ring longer.
+ */
+const synthesizeTone = (text: string, voice: VoiceSettings = DEFAULT_VOICE): string => {
+  const h = hash(`${text}|${voiceKey(voice)}`);
+  const base = 220 + (h % 220); // 220–440 Hz
+  const duration = Math.min(1.5, 0.3 + text.length * 0.06) * (RATE_STRETCH[voice.rate] || 1);
+  const length = Math.floor(duration * STUB_SAMPLE_RATE);
+  const samples = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const t = i / STUB_SAMPLE_RATE;
+    const frequency = t < duration / 2 ? base : base * 1.25; // Major third up
+    const envelope = Math.min(1, t / 0.02) * Math.min(1, (duration - t) / 0.1);
+    samples[i] = 0.4 * envelope * Math.sin(2 * Math.PI * frequency * t);
+  }
+
+  return toBase64(new Uint8Array(encodeWav(samples, STUB_SAMPLE_RATE)));
+};
+
+export const stubProvider: GenerationProvider = {
+  name: 'stub',
+  image: {
+    generate: async (word, styleId, referenceImage, signal) => {
+      await delay(signal);
+      return renderPlaceholder(word, styleId, referenceImage ? 'desde foto' : undefined);
+    },
+    refine: async (_imageDataUrl, instruction, styleId, signal) => {
+      await delay(signal);
+      return renderPlaceholder(instruction, styleId, 'refinado');
+    }
+  },
+  speech: {
+    synthesize: async (text, voice, signal) => {
+      await delay(signal);
+      return synthesizeTone(text, voice);
+    }
+  },
+  text: {
+    proposeVocabulary: async (_theme, count = VOCABULARY_PACK_SIZE, signal) => {
+      await delay(signal);
+      return STUB_VOCABULARY.slice(0, count);
+    },
+    // No grammar offline: just sentence case and a full stop
+    completeSentence: async (words, signal) => {
+      await delay(signal);
+      const text = words.join(' ').toLowerCase();
+      return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+    }
+  }
+};
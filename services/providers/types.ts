@@ -0,0 +1,45 @@
+import { VocabularyWord, VoiceSettings } from '../../types';
+
+/**
+ * Error carrying the gateway's HTTP status (sent by the gateway, read by the generation
+ * queue's retry logic) and its code, e.g. "quota_exceeded".
+ */
+export class GatewayError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'GatewayError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Generation providers behind the create, refine, bulk and pack flows.
+ * Every call takes an optional AbortSignal so the generation queue can cancel it.
+ */
+export interface ImageProvider {
+  // Returns the image as a data URL
+  generate: (word: string, styleId?: string, referenceImage?: string, signal?: AbortSignal) => Promise<string>;
+  refine: (imageDataUrl: string, instruction: string, styleId?: string, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface SpeechProvider {
+  // Returns raw Base64 audio, a trimmed and normalized WAV ready to upload as a pictogram's audio
+  synthesize: (text: string, voice?: VoiceSettings, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface TextProvider {
+  proposeVocabulary: (theme: string, count?: number, signal?: AbortSignal) => Promise<VocabularyWord[]>;
+  // Grammatical sentence from the strip's words (conjugation, articles, agreement)
+  completeSentence: (words: string[], signal?: AbortSignal) => Promise<string>;
+}
+
+export interface GenerationProvider {
+  name: 'gemini' | 'stub' | 'proxy';
+  image: ImageProvider;
+  speech: SpeechProvider;
+  text: TextProvider;
+}
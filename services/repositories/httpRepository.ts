@@ -0,0 +1,48 @@
+import { StorageBackend } from './types';
+import {
+  listPictograms,
+  getPictogram,
+  createPictogram,
+  updatePictogram,
+  deletePictogram,
+  updatePictogramPositions,
+  syncOutbox,
+  listBoards,
+  createBoard,
+  updateBoard,
+  deleteBoard,
+  listPhrases,
+  savePhrase,
+  deletePhrase
+} from '../apiService';
+import { uploadImageToS3, uploadAudioToS3 } from '../storageService';
+
+/**
+ * Remote backend: API Gateway for records, S3 presigned URLs for images and audio,
+ * and the offline outbox for mutations made without a connection.
+ */
+export const httpBackend: StorageBackend = {
+  name: 'http',
+  pictograms: {
+    list: () => listPictograms(),
+    get: getPictogram,
+    create: createPictogram,
+    update: updatePictogram,
+    delete: deletePictogram,
+    upload: uploadImageToS3,
+    uploadAudio: uploadAudioToS3,
+    reorder: updatePictogramPositions,
+    sync: syncOutbox
+  },
+  boards: {
+    list: listBoards,
+    create: createBoard,
+    update: updateBoard,
+    delete: deleteBoard
+  },
+  phrases: {
+    list: listPhrases,
+    save: savePhrase,
+    delete: deletePhrase
+  }
+};
@@ -0,0 +1,19 @@
+import { STORAGE_BACKEND } from '../../constants';
+import { StorageBackend } from './types';
+import { httpBackend } from './httpRepository';
+import { localBackend } from './localRepository';
+
+export * from './types';
+
+const backends: Record<StorageBackend['name'], StorageBackend> = {
+  http: httpBackend,
+  local: localBackend
+};
+
+/**
+ * Storage backend picked at build time through STORAGE_BACKEND ("http" | "local").
+ * Unknown values fall back to the HTTP backend.
+ */
+export const storage: StorageBackend = backends[STORAGE_BACKEND as StorageBackend['name']] || httpBackend;
+
+console.log(`[Storage] Using ${storage.name} backend`);
@@ -0,0 +1,157 @@
+/**
+ * Fully local backend (IndexedDB only)
+ * Lets families without the AWS stack use the app, and lets us develop
+ * without the live API Gateway. Images and audio are kept inline as data URLs.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Pictogram, Board, SavedPhrase } from '../../types';
+import { StorageBackend } from './types';
+import { toDataUrl } from '../storageService';
+import { detectAudioFormat } from '../audioProcessing';
+
+const DB_NAME = 'LeoPictosLocal';
+const DB_VERSION = 2;
+const PICTOGRAMS_STORE = 'pictograms';
+const BOARDS_STORE = 'boards';
+const PHRASES_STORE = 'phrases';
+
+/**
+ * Initialize IndexedDB
+ */
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      if (!db.objectStoreNames.contains(PICTOGRAMS_STORE)) {
+        db.createObjectStore(PICTOGRAMS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BOARDS_STORE)) {
+        db.createObjectStore(BOARDS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PHRASES_STORE)) {
+        db.createObjectStore(PHRASES_STORE, { keyPath: 'id' });
+      }
+      console.log('[Local] IndexedDB stores created');
+    };
+  });
+};
+
+/**
+ * Run a request against a store and resolve with its result
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await initDB();
+  const transaction = db.transaction(storeName, mode);
+  const store = transaction.objectStore(storeName);
+
+  return new Promise((resolve, reject) => {
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getRecord = async <T>(storeName: string, id: string, label: string): Promise<T> => {
+  const record = await runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+  if (!record) {
+    throw new Error(`${label} not found: ${id}`);
+  }
+  return record;
+};
+
+const updateRecord = async <T extends { id: string }>(storeName: string, id: string, updates: Partial<T>, label: string): Promise<T> => {
+  const existing = await getRecord<T>(storeName, id, label);
+  const updated = { ...existing, ...updates, id };
+  await runRequest(storeName, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const localBackend: StorageBackend = {
+  name: 'local',
+  pictograms: {
+    list: () => runRequest<Pictogram[]>(PICTOGRAMS_STORE, 'readonly', store => store.getAll()),
+
+    get: (id) => getRecord<Pictogram>(PICTOGRAMS_STORE, id, 'Pictogram'),
+
+    create: async (pictogram) => {
+      const created: Pictogram = { ...pictogram, id: uuidv4() };
+      await runRequest(PICTOGRAMS_STORE, 'readwrite', store => store.add(created));
+      return created;
+    },
+
+    update: (id, updates) => updateRecord<Pictogram>(PICTOGRAMS_STORE, id, updates, 'Pictogram'),
+
+    delete: async (id) => {
+      await runRequest(PICTOGRAMS_STORE, 'readwrite', store => store.delete(id));
+    },
+
+    // Nothing to upload: keep the image inline as a data URL
+    upload: async (base64Image) => {
+      return base64Image.startsWith('data:') ? base64Image : `data:image/png;base64,${base64Image}`;
+    },
+
+    // Same for audio, as a data URL of its detected format
+    uploadAudio: async (base64Audio) => toDataUrl(base64Audio, detectAudioFormat(base64Audio).contentType),
+
+    reorder: async (positions) => {
+      const db = await initDB();
+      const transaction = db.transaction(PICTOGRAMS_STORE, 'readwrite');
+      const store = transaction.objectStore(PICTOGRAMS_STORE);
+
+      positions.forEach(({ id, position }) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) {
+            store.put({ ...request.result, position });
+          }
+        };
+      });
+
+      return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+
+    // Always "online": nothing is ever queued
+    sync: async () => ({ created: [], conflicts: 0 })
+  },
+  boards: {
+    list: () => runRequest<Board[]>(BOARDS_STORE, 'readonly', store => store.getAll()),
+
+    create: async (board) => {
+      const created: Board = { ...board, id: uuidv4() };
+      await runRequest(BOARDS_STORE, 'readwrite', store => store.add(created));
+      return created;
+    },
+
+    update: (id, updates) => updateRecord<Board>(BOARDS_STORE, id, updates, 'Board'),
+
+    delete: async (id) => {
+      await runRequest(BOARDS_STORE, 'readwrite', store => store.delete(id));
+    }
+  },
+  phrases: {
+    list: () => runRequest<SavedPhrase[]>(PHRASES_STORE, 'readonly', store => store.getAll()),
+
+    save: async (phrase) => {
+      await runRequest(PHRASES_STORE, 'readwrite', store => store.put(phrase));
+      return phrase;
+    },
+
+    delete: async (id) => {
+      await runRequest(PHRASES_STORE, 'readwrite', store => store.delete(id));
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import { Pictogram, Board, SavedPhrase } from '../../types';
+
+export interface PictogramPosition {
+  id: string;
+  position: number;
+}
+
+export interface SyncResult {
+  created: { tempId: string; pictogram: Pictogram }[]; // Pictograms that got their final id
+  conflicts: number;
+}
+
+/**
+ * Storage backend behind usePictograms / useBoards.
+ * Every implementation must keep the same semantics so the UI doesn't care
+ * where the data lives.
+ */
+export interface PictogramRepository {
+  list: () => Promise<Pictogram[]>;
+  get: (id: string) => Promise<Pictogram>;
+  create: (pictogram: Omit<Pictogram, 'id'>) => Promise<Pictogram>;
+  update: (id: string, updates: Partial<Pictogram>) => Promise<Pictogram>;
+  delete: (id: string) => Promise<void>;
+  // Stores a Base64 image and returns the URL to save in `imageUrl`
+  upload: (base64Image: string, filename: string) => Promise<string>;
+  // Stores a clip (raw Base64) and returns the URL to save in `audioUrl`
+  uploadAudio: (base64Audio: string, filename: string) => Promise<string>;
+  reorder: (positions: PictogramPosition[]) => Promise<void>;
+  // Pushes changes made offline (no-op for backends that are always available)
+  sync: () => Promise<SyncResult>;
+}
+
+export interface BoardRepository {
+  list: () => Promise<Board[]>;
+  create: (board: Omit<Board, 'id'>) => Promise<Board>;
+  update: (id: string, updates: Partial<Omit<Board, 'id'>>) => Promise<Board>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface PhraseRepository {
+  list: () => Promise<SavedPhrase[]>;
+  // Create or replace by id (ids are generated on the device so phrases can be saved offline)
+  save: (phrase: SavedPhrase) => Promise<SavedPhrase>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface StorageBackend {
+  name: 'http' | 'local';
+  pictograms: PictogramRepository;
+  boards: BoardRepository;
+  phrases: PhraseRepository;
+}
@@ -0,0 +1,133 @@
+/**
+ * Saved Phrases Service
+ * Sentence history and pinned phrases. The local copy (localStorage) is what the
+ * UI reads, so phrases survive reloads and work offline; every change is pushed
+ * to the storage backend when it is reachable, and whatever could not be pushed
+ * is retried on the next sync.
+ */
+
+import { SavedPhrase } from '../types';
+import { storage } from './repositories';
+
+const SAVED_PHRASES_STORAGE_KEY = 'savedPhrases';
+
+interface SavedPhrasesState {
+  phrases: SavedPhrase[];
+  pendingIds: string[]; // Saved locally, not yet on the backend
+  deletedIds: string[]; // Deleted locally, not yet on the backend
+}
+
+const EMPTY_STATE: SavedPhrasesState = { phrases: [], pendingIds: [], deletedIds: [] };
+
+const readState = (): SavedPhrasesState => {
+  try {
+    const stored = localStorage.getItem(SAVED_PHRASES_STORAGE_KEY);
+    return stored ? { ...EMPTY_STATE, ...JSON.parse(stored) } : EMPTY_STATE;
+  } catch (error) {
+    console.error('[Phrases] Error reading saved phrases:', error);
+    return EMPTY_STATE;
+  }
+};
+
+const writeState = (state: SavedPhrasesState) => {
+  try {
+    localStorage.setItem(SAVED_PHRASES_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('[Phrases] Error writing saved phrases:', error);
+  }
+};
+
+const without = (ids: string[], id: string) => ids.filter(existing => existing !== id);
+
+/**
+ * Phrases as last stored on this device
+ */
+export const loadSavedPhrases = (): SavedPhrase[] => readState().phrases;
+
+/**
+ * Store a phrase locally right away, then try to push it.
+ */
+export const putSavedPhrase = async (phrase: SavedPhrase): Promise<void> => {
+  const state = readState();
+  writeState({
+    phrases: [...state.phrases.filter(p => p.id !== phrase.id), phrase],
+    pendingIds: [...without(state.pendingIds, phrase.id), phrase.id],
+    deletedIds: without(state.deletedIds, phrase.id)
+  });
+
+  try {
+    await storage.phrases.save(phrase);
+    const latest = readState();
+    writeState({ ...latest, pendingIds: without(latest.pendingIds, phrase.id) });
+  } catch (error) {
+    console.warn('[Phrases] Phrase kept locally, will sync later:', error);
+  }
+};
+
+/**
+ * Remove a phrase locally right away, then try to delete it remotely.
+ */
+export const removeSavedPhrase = async (id: string): Promise<void> => {
+  const state = readState();
+  writeState({
+    phrases: state.phrases.filter(p => p.id !== id),
+    pendingIds: without(state.pendingIds, id),
+    deletedIds: [...without(state.deletedIds, id), id]
+  });
+
+  try {
+    await storage.phrases.delete(id);
+    const latest = readState();
+    writeState({ ...latest, deletedIds: without(latest.deletedIds, id) });
+  } catch (error) {
+    console.warn('[Phrases] Deletion kept locally, will sync later:', error);
+  }
+};
+
+/**
+ * Push pending changes, then merge the backend's list into the local copy.
+ * Local phrases that are not pending and missing remotely were deleted on
+ * another device; for phrases on both sides the most recently updated wins.
+ * Resolves with the merged list (the local one when the backend is unreachable).
+ */
+export const syncSavedPhrases = async (): Promise<SavedPhrase[]> => {
+  const state = readState();
+  const pushed = new Map<string, number>(); // id → updatedAt of the version pushed
+
+  try {
+    for (const id of state.deletedIds) {
+      await storage.phrases.delete(id);
+    }
+    for (const id of state.pendingIds) {
+      const phrase = state.phrases.find(p => p.id === id);
+      if (!phrase) continue;
+      await storage.phrases.save(phrase);
+      pushed.set(id, phrase.updatedAt);
+    }
+
+    const remote = await storage.phrases.list();
+
+    // Changes made while the sync was running stay pending
+    const latest = readState();
+    const pendingIds = latest.pendingIds.filter(id =>
+      pushed.get(id) !== latest.phrases.find(p => p.id === id)?.updatedAt
+    );
+    const deletedIds = latest.deletedIds.filter(id => !state.deletedIds.includes(id));
+
+    const local = new Map(latest.phrases.map(p => [p.id, p]));
+    const merged = remote
+      .filter(phrase => !deletedIds.includes(phrase.id))
+      .map(phrase => {
+        const mine = local.get(phrase.id);
+        return mine && mine.updatedAt > phrase.updatedAt ? mine : phrase;
+      });
+    const unsynced = latest.phrases.filter(p => pendingIds.includes(p.id) && !merged.some(m => m.id === p.id));
+
+    const phrases = [...merged, ...unsynced];
+    writeState({ phrases, pendingIds, deletedIds });
+    return phrases;
+  } catch (error) {
+    console.warn('[Phrases] Sync failed, using local phrases:', error);
+    return readState().phrases;
+  }
+};
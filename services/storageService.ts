@@ -1,4 +1,5 @@
 import { getUploadUrl } from "./apiService";
+import { detectAudioFormat } from "./audioProcessing";
 
 /**
  * Helper to convert Base64 to Blob for real S3 upload
@@ -16,26 +17,47 @@ export const base64ToBlob = (base64: string, mimeType: string = 'image/png'): Bl
 };
 
 /**
- * Uploads a Base64 image string to AWS S3 via a presigned URL obtained from the API.
+ * Loads an image (S3 URL or data URL) as a Base64 data URL, e.g. to send it back to Gemini.
+ * Requires the bucket to allow CORS GET requests from the app origin.
  */
-export const uploadImageToS3 = async (base64Image: string, filename: string): Promise<string> => {
-  try {
+export const imageUrlToBase64 = async (imageUrl: string): Promise<string> => {
+    if (imageUrl.startsWith('data:')) return imageUrl;
+
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+        throw new Error(`Failed to download image: ${response.statusText}`);
+    }
+    const blob = await response.blob();
+
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Gets a presigned URL for `filename` and PUTs the file there.
+ * Resolves with the public URL.
+ */
+const putToS3 = async (base64Data: string, filename: string, contentType: string): Promise<string> => {
     console.log(`[S3] Getting upload URL for ${filename}...`);
-    
+
     // 1. Get Presigned URL
-    const { uploadUrl, publicUrl } = await getUploadUrl(filename, 'image/png');
+    const { uploadUrl, publicUrl } = await getUploadUrl(filename, contentType);
 
     // 2. Convert Base64 to Blob
-    const imageBlob = base64ToBlob(base64Image, 'image/png');
+    const fileBlob = base64ToBlob(base64Data, contentType);
 
     // 3. Upload to S3
     console.log(`[S3] Uploading binary data to ${uploadUrl}...`);
     const uploadResponse = await fetch(uploadUrl, {
         method: 'PUT',
         headers: {
-            'Content-Type': 'image/png'
+            'Content-Type': contentType
         },
-        body: imageBlob
+        body: fileBlob
     });
 
     if (!uploadResponse.ok) {
@@ -44,7 +66,16 @@ export const uploadImageToS3 = async (base64Image: string, filename: string): Pr
 
     console.log(`[S3] Upload Complete. Public URL: ${publicUrl}`);
     return publicUrl;
+};
 
+/**
+ * Uploads a Base64 image string to AWS S3 via a presigned URL obtained from the API.
+ * The content type is taken from the data URL prefix (PNG when there is none).
+ */
+export const uploadImageToS3 = async (base64Image: string, filename: string): Promise<string> => {
+  try {
+    const contentType = base64Image.match(/^data:(.*?);base64,/)?.[1] || 'image/png';
+    return await putToS3(base64Image, filename, contentType);
   } catch (error) {
     console.error("Error uploading to S3:", error);
     // Fallback: Return the base64 string so the UI still works even if upload fails
@@ -52,4 +83,25 @@ export const uploadImageToS3 = async (base64Image: string, filename: string): Pr
     // but this keeps the UI responsive for the user in case of partial failure)
     return base64Image;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Uploads a clip (raw Base64) to AWS S3 via a presigned URL, like images.
+ * The content type is detected from the audio itself.
+ */
+export const uploadAudioToS3 = async (base64Audio: string, filename: string): Promise<string> => {
+  const { contentType } = detectAudioFormat(base64Audio);
+  try {
+    return await putToS3(base64Audio, filename, contentType);
+  } catch (error) {
+    console.error("Error uploading audio to S3:", error);
+    // Fallback: keep the clip inline as a data URL so it still plays (offline, S3 down)
+    return toDataUrl(base64Audio, contentType);
+  }
+};
+
+/**
+ * Data URL for a Base64 payload (unchanged if it already is one)
+ */
+export const toDataUrl = (base64: string, contentType: string): string =>
+  base64.startsWith('data:') ? base64 : `data:${contentType};base64,${base64}`;
@@ -1,11 +1,74 @@
+export type PictogramCategory =
+  | 'people'
+  | 'actions'
+  | 'feelings'
+  | 'food'
+  | 'objects'
+  | 'places'
+  | 'social';
+
 export interface Pictogram {
   id: string;
   word: string; // The text label (e.g., "Manzana")
   imageUrl: string; // The URL (S3 or Base64) of the image
-  audioBase64: string; // The generated TTS audio data
+  audioUrl?: string; // The audio file (S3 URL, or a data URL on the local backend)
+  audioBase64?: string | null; // Legacy inline audio (raw Base64); null once moved to `audioUrl`
+  audioFormat?: AudioMetadata; // How the audio is encoded (missing on older records)
   createdAt: number;
   voiceId?: string; // The ID of the voice used (if AI)
+  voice?: VoiceSettings; // Full voice used (if AI), so regenerations sound the same; older records only have voiceId
   isCustomAudio?: boolean; // Whether the audio was recorded by the user
+  audioOutdated?: boolean; // The word changed but the audio wasn't regenerated yet (e.g. renamed offline)
+  category?: PictogramCategory | null; // Fitzgerald-key category (missing on older records, null once removed)
+  position?: number; // Explicit order on the main grid, lowest first (missing until first reorder)
+  styleId?: string; // Image style preset used to draw it (defaults to PECS)
+  isCustomImage?: boolean; // Whether the image was imported by the user instead of AI-generated
+}
+
+// Encoding of a pictogram's audio, so players don't have to guess it from the bytes
+export interface AudioMetadata {
+  contentType: string; // 'audio/wav' for processed clips, 'audio/L16' for headerless 16-bit PCM
+  sampleRate?: number;
+  channels?: number;
+  durationMs?: number;
+}
+
+// A word proposed for a vocabulary pack, before it becomes a pictogram
+export interface VocabularyWord {
+  word: string;
+  category?: PictogramCategory;
+}
+
+export interface Board {
+  id: string;
+  name: string; // e.g. "Desayuno", "Escuela"
+  pictogramIds: string[]; // Ordered references; a pictogram can live on several boards
+  createdAt: number;
+}
+
+// A sentence from the strip: kept in the history once spoken, or pinned as a one-tap phrase
+export interface SavedPhrase {
+  id: string;
+  pictogramIds: string[]; // Ordered sequence to load back into the strip
+  text: string; // What was spoken (the corrected sentence when available)
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number; // Last spoken or edited; orders the history
+}
+
+// A child using the device; learned data (e.g. predictions) is kept per child
+// How speech is synthesized: a prebuilt voice plus accent, style and speed (ids from constants)
+export interface VoiceSettings {
+  voiceId: string;
+  accent: string;
+  style: string;
+  rate: string;
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  voice?: VoiceSettings; // Default voice for this child's new pictograms and sentences
 }
 
 export enum ProcessingState {
@@ -14,5 +77,22 @@ export enum ProcessingState {
   GENERATING_AUDIO = 'GENERATING_AUDIO',
   UPLOADING = 'UPLOADING',
   COMPLETE = 'COMPLETE',
-  ERROR = 'ERROR'
-}
\ No newline at end of file
+  ERROR = 'ERROR',
+  // Generation queue job states
+  QUEUED = 'QUEUED',
+  GENERATING_TEXT = 'GENERATING_TEXT',
+  RETRYING = 'RETRYING', // Waiting out a backoff after a 429/5xx
+  CANCELLED = 'CANCELLED'
+}
+
+export type GenerationJobKind = 'image' | 'audio' | 'text';
+
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  label: string; // Shown in the jobs panel, e.g. "Imagen: perro"
+  state: ProcessingState;
+  attempt: number; // 1-based; grows with each retry
+  error?: string;
+  createdAt: number;
+}
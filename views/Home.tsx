@@ -1,45 +1,119 @@
 import React, { useState, useRef } from 'react';
-import { Search, Sparkles, Loader2, CloudOff, Unlock, Move } from 'lucide-react';
-import { Pictogram } from '../types';
+import { Search, Sparkles, Loader2, CloudOff, Unlock, Move, LayoutGrid, Plus } from 'lucide-react';
+import { Pictogram, VocabularyWord } from '../types';
+import { PictogramEdits } from '../hooks/usePictograms';
+import { CATEGORY_OPTIONS, UNCATEGORIZED_OPTION, getCategoryOption } from '../constants';
 import PictogramCard from '../components/cards/PictogramCard';
 import CreateModal from '../components/modals/CreateModal';
+import RefineImageModal from '../components/modals/RefineImageModal';
+import BulkGenerateModal from '../components/modals/BulkGenerateModal';
+import VocabularyPackPanel from '../components/packs/VocabularyPackPanel';
+import VocabularyPackModal from '../components/modals/VocabularyPackModal';
+import SyncConflicts from '../components/feedback/SyncConflicts';
+import SuggestionRow from '../components/cards/SuggestionRow';
 import { usePictogramContext } from '../context/PictogramContext';
 import { useUIContext } from '../context/UIContext';
+import { usePredictions } from '../hooks/usePredictions';
+import { useAudioPreload } from '../hooks/useAudioPreload';
 
 const Home: React.FC = () => {
   const { 
     pictograms, loading, error, loadingExamples, 
-    addPictogram, removePictogram, editPictogram, 
-    loadPictograms, generateExamples, reorderPictograms
+    addPictogram, removePictogram, editPictogram, updatePictogramImage,
+    loadPictograms, generateExamples, reorderPictograms,
+    addBoard, activeBoard, boardPictograms, addPictogramToBoard, addPictogramsToBoard, removePictogramFromBoard, reorderBoard,
+    pendingSyncIds, syncConflicts, dismissSyncConflict
   } = usePictogramContext();
 
   const { 
-    isEditMode, addToSentence, showToast, 
-    isModalOpen, setModalOpen 
+    isEditMode, sentence, addToSentence, showToast, 
+    isModalOpen, setModalOpen,
+    isBulkModalOpen, setBulkModalOpen,
+    isPackModalOpen, setPackModalOpen
   } = useUIContext();
 
   const [searchTerm, setSearchTerm] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [refiningPictogram, setRefiningPictogram] = useState<Pictogram | null>(null);
   
   // Drag and Drop State
   const [dragItemIndex, setDragItemIndex] = useState<number | null>(null);
   const [dragOverItemIndex, setDragOverItemIndex] = useState<number | null>(null);
 
-  const filteredPictograms = pictograms.filter(p => 
-    p.word.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredPictograms = boardPictograms.filter(p => 
+    p.word.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (categoryFilter === null || getCategoryOption(p.category).id === categoryFilter)
   );
 
-  // Disable Drag n Drop if searching, as indices won't match source array
-  const isDragEnabled = searchTerm === '';
+  // Only offer chips for categories that actually have pictograms
+  const availableCategories = [...CATEGORY_OPTIONS, UNCATEGORIZED_OPTION].filter(option =>
+    boardPictograms.some(p => getCategoryOption(p.category).id === option.id)
+  );
+
+  // Next-word suggestions only make sense once the child has started a sentence
+  const suggestions = usePredictions(sentence, boardPictograms);
+  const showSuggestions = !isEditMode && sentence.length > 0;
+
+  // Decode the audio of the cards on screen before they are tapped
+  const gridRef = useAudioPreload(filteredPictograms);
+
+  // Disable Drag n Drop if searching or filtering, as indices won't match source array
+  const isDragEnabled = searchTerm === '' && categoryFilter === null;
+
+  // Pictograms that can still be added to the active board (edit mode only)
+  const pictogramsOutsideBoard = activeBoard
+    ? pictograms.filter(p => !activeBoard.pictogramIds.includes(p.id))
+    : [];
 
   // --- Wrappers interfacing Context Logic with UI Feedback ---
 
   const handleAdd = async (newPictogram: Pictogram) => {
+    let created: Pictogram;
     try {
-        await addPictogram(newPictogram);
-        showToast('Pictograma creado con éxito', 'success');
+        created = await addPictogram(newPictogram);
+        showToast(!navigator.onLine
+            ? 'Pictograma guardado; se sincronizará al recuperar conexión'
+            : 'Pictograma creado con éxito', 'success');
     } catch (error) {
         showToast('Error guardando en la base de datos', 'error');
+        return;
+    }
+
+    // New pictograms land on the board that is being viewed
+    if (activeBoard) {
+        try {
+            await addPictogramToBoard(activeBoard.id, created.id);
+        } catch (error) {
+            showToast('No se pudo agregar al tablero', 'error');
+        }
+    }
+  };
+
+  // Save reviewed bulk results one by one; a single failure doesn't lose the rest
+  const handleBulkAdd = async (newPictograms: Pictogram[]): Promise<number> => {
+    const createdIds: string[] = [];
+    for (const pictogram of newPictograms) {
+        try {
+            const created = await addPictogram(pictogram);
+            createdIds.push(created.id);
+        } catch (error) {
+            console.error(`Bulk save failed for ${pictogram.word}:`, error);
+        }
+    }
+
+    if (activeBoard && createdIds.length > 0) {
+        try {
+            await addPictogramsToBoard(activeBoard.id, createdIds);
+        } catch (error) {
+            showToast('No se pudo agregar al tablero', 'error');
+        }
     }
+
+    const failed = newPictograms.length - createdIds.length;
+    showToast(failed > 0
+        ? `${createdIds.length} pictogramas guardados, ${failed} fallaron`
+        : `${createdIds.length} pictogramas guardados`, failed > 0 ? 'error' : 'success');
+    return createdIds.length;
   };
 
   const handleDelete = async (id: string) => {
@@ -51,28 +125,67 @@ const Home: React.FC = () => {
     }
   };
 
-  const handleEdit = async (id: string, newWord: string) => {
+  const handleEdit = async (id: string, edits: PictogramEdits) => {
      try {
-         await editPictogram(id, newWord);
+         await editPictogram(id, edits);
          showToast('Pictograma actualizado', 'success');
      } catch (error) {
          showToast('Error actualizando audio', 'error');
      }
   };
 
-  const handleLoadExamples = async () => {
+  const handleAcceptRefinedImage = async (pictogram: Pictogram, imageBase64: string) => {
+    await updatePictogramImage(pictogram.id, imageBase64);
+    showToast('Imagen actualizada', 'success');
+  };
+
+  const handleAddToBoard = async (pictogramId: string) => {
+    if (!activeBoard) return;
     try {
-        const count = await generateExamples();
-        if (count > 0) {
-            showToast(`${count} ejemplos cargados`, 'success');
-        } else {
-            showToast("No se pudieron generar los ejemplos", 'error');
-        }
+        await addPictogramToBoard(activeBoard.id, pictogramId);
+    } catch (error) {
+        showToast('No se pudo agregar al tablero', 'error');
+    }
+  };
+
+  const handleRemoveFromBoard = async (pictogramId: string) => {
+    if (!activeBoard) return;
+    try {
+        await removePictogramFromBoard(activeBoard.id, pictogramId);
+        showToast(`Quitado de "${activeBoard.name}"`, 'success');
     } catch (error) {
-        showToast("Error general cargando ejemplos", 'error');
+        showToast('No se pudo quitar del tablero', 'error');
     }
   };
 
+  // Generate an approved vocabulary pack and collect it in a new board named after the theme
+  // Resolves true when the board was created, so the header modal knows to close
+  const handleCreatePack = async (theme: string, words: VocabularyWord[]): Promise<boolean> => {
+    let created: Pictogram[] | null;
+    try {
+        created = await generateExamples(words);
+    } catch (error) {
+        showToast("Error generando el vocabulario", 'error');
+        return false;
+    }
+
+    if (created === null) return false; // Already generating: ignore the duplicate click
+
+    if (created.length === 0) {
+        showToast("No se pudieron generar los pictogramas", 'error');
+        return false;
+    }
+
+    try {
+        await addBoard(theme.charAt(0).toUpperCase() + theme.slice(1), created.map(p => p.id));
+        showToast(`Tablero "${theme}" creado con ${created.length} pictogramas`, 'success');
+    } catch (error) {
+        // The pictograms exist anyway; only the grouping failed
+        showToast(`${created.length} pictogramas creados, pero no se pudo crear el tablero`, 'error');
+    }
+    return true;
+  };
+
   // --- DnD Handlers ---
   const handleDragStart = (index: number) => (e: React.DragEvent) => {
     setDragItemIndex(index);
@@ -101,7 +214,7 @@ const Home: React.FC = () => {
     }
 
     // Reorder logic
-    const _pictograms = [...pictograms];
+    const _pictograms = [...boardPictograms];
     const draggedItemContent = _pictograms[dragItemIndex];
     
     _pictograms.splice(dragItemIndex, 1);
@@ -110,7 +223,13 @@ const Home: React.FC = () => {
     setDragItemIndex(null);
     setDragOverItemIndex(null);
 
-    reorderPictograms(_pictograms);
+    if (activeBoard) {
+        reorderBoard(activeBoard.id, _pictograms.map(p => p.id))
+            .catch(() => showToast('No se pudo guardar el orden del tablero', 'error'));
+    } else {
+        reorderPictograms(_pictograms)
+            .catch(() => showToast('No se pudo guardar el orden', 'error'));
+    }
   };
   
   const handleDragEnd = () => {
@@ -134,8 +253,37 @@ const Home: React.FC = () => {
             />
         </div>
 
+        {/* Offline sync conflicts */}
+        <SyncConflicts conflicts={syncConflicts} onDismiss={dismissSyncConflict} />
+
+        {/* Category Filter Chips */}
+        {availableCategories.length > 1 && (
+            <div className="mb-6 flex flex-wrap justify-center gap-2">
+                <button
+                    onClick={() => setCategoryFilter(null)}
+                    className={`px-4 py-1.5 rounded-full text-sm font-semibold border-2 transition-all ${categoryFilter === null 
+                        ? 'bg-blue-500 border-blue-500 text-white shadow-sm' 
+                        : 'bg-white dark:bg-gray-800 border-blue-100 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-blue-300'}`}
+                >
+                    Todas
+                </button>
+                {availableCategories.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setCategoryFilter(prev => prev === option.id ? null : option.id)}
+                        className={`px-4 py-1.5 rounded-full text-sm font-semibold border-2 transition-all flex items-center gap-1.5 ${option.chipClass} ${categoryFilter === option.id 
+                            ? `${option.borderClass} shadow-sm` 
+                            : 'border-transparent opacity-80 hover:opacity-100'}`}
+                    >
+                        <span className={`w-2.5 h-2.5 rounded-full ${option.dotClass}`}></span>
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        )}
+
         {/* Banner for Edit Mode */}
-        {isEditMode && pictograms.length > 0 && (
+        {isEditMode && boardPictograms.length > 0 && (
             <div className="max-w-2xl mx-auto mb-6 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 text-center animate-in slide-in-from-top-4">
                 <p className="text-yellow-700 dark:text-yellow-300 text-sm font-semibold flex items-center justify-center gap-2">
                     <Unlock size={16} /> Modo Edición Activado: Puedes borrar o modificar pictogramas.
@@ -144,7 +292,7 @@ const Home: React.FC = () => {
         )}
         
         {/* Drag Tip */}
-        {isDragEnabled && pictograms.length > 1 && !loading && !error && (
+        {isDragEnabled && boardPictograms.length > 1 && !loading && !error && (
              <div className="text-center mb-4 text-xs text-gray-400 dark:text-gray-500 flex items-center justify-center gap-1">
                 <Move size={12} /> Arrastra las tarjetas para reordenarlas
              </div>
@@ -169,34 +317,39 @@ const Home: React.FC = () => {
         {/* Grid */}
         {!loading && !error && (
             <>
-                {filteredPictograms.length === 0 ? (
+                {showSuggestions && (
+                    <SuggestionRow suggestions={suggestions} onSelect={addToSentence} />
+                )}
+
+                {filteredPictograms.length === 0 && activeBoard && boardPictograms.length === 0 ? (
+                  <div className="text-center py-20">
+                    <div className="w-24 h-24 bg-blue-50 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4 transition-colors duration-300">
+                        <LayoutGrid size={40} className="text-blue-300 dark:text-blue-500" />
+                    </div>
+                    <h3 className="text-xl font-bold text-gray-500 dark:text-gray-400">"{activeBoard.name}" está vacío</h3>
+                    <p className="text-gray-400 dark:text-gray-600 mt-2">
+                        {isEditMode ? 'Elige pictogramas abajo para agregarlos a este tablero.' : 'Activa el modo edición para agregar pictogramas a este tablero.'}
+                    </p>
+                  </div>
+                ) : pictograms.length === 0 ? (
+                  <div className="text-center py-16">
+                    <div className="w-24 h-24 bg-purple-50 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4 transition-colors duration-300">
+                        <Sparkles size={40} className="text-purple-300 dark:text-purple-500" />
+                    </div>
+                    <h3 className="text-xl font-bold text-gray-500 dark:text-gray-400">Empieza con un tema</h3>
+                    <p className="text-gray-400 dark:text-gray-600 mt-2 mb-6">Escribe un momento del día y te proponemos el vocabulario para Leonel.</p>
+                    <VocabularyPackPanel onCreate={async (theme, words) => { await handleCreatePack(theme, words); }} isGenerating={loadingExamples} />
+                  </div>
+                ) : filteredPictograms.length === 0 ? (
                   <div className="text-center py-20">
                     <div className="w-24 h-24 bg-blue-50 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4 transition-colors duration-300">
                         <Search size={40} className="text-blue-300 dark:text-blue-500" />
                     </div>
                     <h3 className="text-xl font-bold text-gray-500 dark:text-gray-400">No se encontraron pictogramas</h3>
-                    <p className="text-gray-400 dark:text-gray-600 mt-2 mb-6">Agrega uno nuevo o carga ejemplos para Leonel.</p>
-                    
-                    <button 
-                        onClick={handleLoadExamples}
-                        disabled={loadingExamples}
-                        className="inline-flex items-center gap-2 px-6 py-3 bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300 rounded-full font-semibold hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors disabled:opacity-50"
-                    >
-                        {loadingExamples ? (
-                            <>
-                                <Loader2 size={20} className="animate-spin"/>
-                                <span>Cargando...</span>
-                            </>
-                        ) : (
-                            <>
-                                <Sparkles size={20} />
-                                <span>Cargar Ejemplos</span>
-                            </>
-                        )}
-                    </button>
+                    <p className="text-gray-400 dark:text-gray-600 mt-2">Prueba con otra búsqueda o agrega uno nuevo.</p>
                   </div>
                 ) : (
-                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+                  <div ref={gridRef} className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
                     {filteredPictograms.map((pictogram, index) => (
                       <PictogramCard 
                         key={pictogram.id} 
@@ -204,7 +357,10 @@ const Home: React.FC = () => {
                         onDelete={handleDelete}
                         onEdit={handleEdit}
                         onSelect={addToSentence}
+                        onRemoveFromBoard={activeBoard ? handleRemoveFromBoard : undefined}
+                        onRefineImage={setRefiningPictogram}
                         isEditMode={isEditMode}
+                        isPendingSync={pendingSyncIds.includes(pictogram.id)}
                         // DnD Props
                         draggable={isDragEnabled}
                         onDragStart={handleDragStart(index)}
@@ -218,6 +374,28 @@ const Home: React.FC = () => {
                     ))}
                   </div>
                 )}
+
+                {/* Add existing pictograms to the active board */}
+                {isEditMode && activeBoard && pictogramsOutsideBoard.length > 0 && (
+                    <div className="mt-10 p-4 bg-white dark:bg-gray-800 rounded-2xl border-2 border-dashed border-blue-200 dark:border-gray-700">
+                        <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                            <Plus size={16} /> Agregar a "{activeBoard.name}"
+                        </h3>
+                        <div className="flex flex-wrap gap-3">
+                            {pictogramsOutsideBoard.map(pictogram => (
+                                <button
+                                    key={pictogram.id}
+                                    onClick={() => handleAddToBoard(pictogram.id)}
+                                    className="w-20 flex flex-col items-center p-1 rounded-xl border-2 border-gray-100 dark:border-gray-700 hover:border-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 transition-colors"
+                                    title={`Agregar ${pictogram.word}`}
+                                >
+                                    <img src={pictogram.imageUrl} alt={pictogram.word} className="w-14 h-14 object-contain" />
+                                    <span className="text-[10px] font-bold uppercase truncate max-w-full text-gray-700 dark:text-gray-200">{pictogram.word}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </>
         )}
 
@@ -226,6 +404,25 @@ const Home: React.FC = () => {
             onClose={() => setModalOpen(false)} 
             onSave={handleAdd} 
         />
+
+        <BulkGenerateModal
+            isOpen={isBulkModalOpen}
+            onClose={() => setBulkModalOpen(false)}
+            onSave={handleBulkAdd}
+        />
+
+        <VocabularyPackModal
+            isOpen={isPackModalOpen}
+            onClose={() => setPackModalOpen(false)}
+            onCreate={handleCreatePack}
+            isGenerating={loadingExamples}
+        />
+
+        <RefineImageModal
+            pictogram={refiningPictogram}
+            onClose={() => setRefiningPictogram(null)}
+            onAccept={handleAcceptRefinedImage}
+        />
     </>
   );
 };
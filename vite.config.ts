@@ -2,19 +2,25 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // With the generation gateway the key lives on the server only, never in the bundle
+    const apiKey = env.GENERATION_PROVIDER === 'proxy' ? '' : env.GEMINI_API_KEY;
     return {
       base: '/', // GitHub Pages with custom domain uses root path
-      publicDir: 'public', // Ensure public folder is copied to dist
+      publicDir: isSsrBuild ? false : 'public', // Ensure public folder is copied to dist (not into the gateway build)
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The gateway (SSR build) reads its environment at runtime instead
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND || 'http'),
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER || ''),
+        'process.env.GENERATION_PROXY_URL': JSON.stringify(env.GENERATION_PROXY_URL || '')
       },
       resolve: {
         alias: {